@@ -1,4 +0,0 @@
-import { startWorker } from './jobs';
-import 'dotenv/config';
-
-startWorker();
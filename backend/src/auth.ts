@@ -0,0 +1,168 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import mongoose from 'mongoose';
+import { UsageModel, UserModel } from './db';
+import { QuotaUsage, User, UserRole } from './types';
+
+export interface UserInput {
+    name: string;
+    role?: UserRole;
+    dailyJobQuota?: number | null;
+    dailyLineQuota?: number | null;
+}
+
+/** Raised when a user would get a name that is already taken. */
+export class UserConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UserConflictError';
+    }
+}
+
+const KEY_PREFIX = 'pst_';
+const VISIBLE_KEY_CHARACTERS = 10;
+const ROLES: UserRole[] = ['admin', 'user'];
+const DEFAULT_DAILY_JOBS = parseInt(process.env.DEFAULT_DAILY_JOB_QUOTA || '20', 10);
+// Counted per cue and target language, so a 600-cue file into three languages uses 1800.
+const DEFAULT_DAILY_LINES = parseInt(process.env.DEFAULT_DAILY_LINE_QUOTA || '20000', 10);
+
+// Administrator that exists without a database record, so a fresh install can create its first users with ADMIN_API_KEY.
+const BOOTSTRAP_ADMIN: User = { id: 'admin', name: 'admin', role: 'admin', keyPrefix: 'ADMIN_API_KEY', dailyJobQuota: null, dailyLineQuota: null, createdAt: new Date(0).toISOString() };
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+const newApiKey = () => KEY_PREFIX + randomBytes(24).toString('hex');
+const today = () => new Date().toISOString().slice(0, 10);
+const isQuota = (value: unknown) => value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+
+/** Returns an error message for an invalid create/update body, or null. */
+export function validateUserInput(input: any, partial = false): string | null {
+    if (input === null || typeof input !== 'object') return 'User details are required.';
+    if ((!partial || input.name !== undefined) && (typeof input.name !== 'string' || !input.name.trim())) return 'name must be a non-empty string.';
+    if (input.role !== undefined && !ROLES.includes(input.role)) return `role must be one of: ${ROLES.join(', ')}.`;
+    for (const field of ['dailyJobQuota', 'dailyLineQuota']) {
+        if (input[field] !== undefined && !isQuota(input[field])) return `${field} must be a non-negative whole number, or null for the server default.`;
+    }
+    return null;
+}
+
+/** Resolves an API key to its user, or null when the key is missing or unknown. */
+export async function authenticate(key: string | undefined): Promise<User | null> {
+    if (!key) return null;
+    const hash = hashKey(key);
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (adminKey && timingSafeEqual(Buffer.from(hash), Buffer.from(hashKey(adminKey)))) return BOOTSTRAP_ADMIN;
+    const doc = await UserModel.findOne({ keyHash: hash }).lean();
+    return doc ? toUser(doc) : null;
+}
+
+/** Administrators see every job; everyone else only the jobs they submitted. Jobs from before accounts existed have no owner. */
+export function canAccess(user: User, ownerId: string | undefined): boolean {
+    return user.role === 'admin' || (!!ownerId && ownerId === user.id);
+}
+
+export async function listUsers(): Promise<User[]> {
+    const docs = await UserModel.find().sort({ name: 1 }).lean();
+    return docs.map(toUser);
+}
+
+/** Creates a user and returns their API key. The key cannot be looked up again later. */
+export async function createUser(input: UserInput): Promise<{ user: User, apiKey: string }> {
+    const apiKey = newApiKey();
+    try {
+        const doc = await UserModel.create({
+            name: input.name.trim(),
+            role: input.role ?? 'user',
+            keyHash: hashKey(apiKey),
+            keyPrefix: apiKey.slice(0, VISIBLE_KEY_CHARACTERS),
+            dailyJobQuota: input.dailyJobQuota ?? null,
+            dailyLineQuota: input.dailyLineQuota ?? null,
+        });
+        return { user: toUser(doc.toObject()), apiKey };
+    } catch (error: any) {
+        if (error.code === 11000) throw new UserConflictError(`A user named "${input.name.trim()}" already exists.`);
+        throw error;
+    }
+}
+
+export async function updateUser(id: string, changes: Partial<UserInput>): Promise<User | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const update: Record<string, unknown> = {};
+    if (changes.name !== undefined) update.name = changes.name.trim();
+    if (changes.role !== undefined) update.role = changes.role;
+    if (changes.dailyJobQuota !== undefined) update.dailyJobQuota = changes.dailyJobQuota;
+    if (changes.dailyLineQuota !== undefined) update.dailyLineQuota = changes.dailyLineQuota;
+    try {
+        const doc = await UserModel.findByIdAndUpdate(id, { $set: update }, { new: true }).lean();
+        return doc ? toUser(doc) : null;
+    } catch (error: any) {
+        if (error.code === 11000) throw new UserConflictError(`A user named "${update.name}" already exists.`);
+        throw error;
+    }
+}
+
+/** Replaces a user's API key; the old key stops working immediately. */
+export async function rotateKey(id: string): Promise<{ user: User, apiKey: string } | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const apiKey = newApiKey();
+    const doc = await UserModel.findByIdAndUpdate(id, { $set: { keyHash: hashKey(apiKey), keyPrefix: apiKey.slice(0, VISIBLE_KEY_CHARACTERS) } }, { new: true }).lean();
+    return doc ? { user: toUser(doc), apiKey } : null;
+}
+
+/** Deletes a user. Their jobs stay in the queue, visible to administrators only. */
+export async function deleteUser(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const doc = await UserModel.findByIdAndDelete(id);
+    if (!doc) return false;
+    await UsageModel.deleteMany({ userId: id });
+    return true;
+}
+
+export async function getUsage(user: User): Promise<QuotaUsage> {
+    const usage: any = await UsageModel.findOne({ userId: user.id, day: today() }).lean();
+    const limits = quotaLimits(user);
+    return { day: today(), jobs: usage?.jobs ?? 0, lines: usage?.lines ?? 0, jobLimit: limits?.jobs ?? null, lineLimit: limits?.lines ?? null };
+}
+
+/**
+ * Counts `jobs` and `lines` against the user's quota for the current UTC day.
+ * Returns an error message, and counts nothing, when that would go over either
+ * limit. The limit check and the increment are one update, so parallel
+ * requests cannot both slip under the limit.
+ */
+export async function consumeQuota(user: User, jobs: number, lines: number): Promise<string | null> {
+    const limits = quotaLimits(user);
+    if (!limits) return null;
+    if (jobs > limits.jobs) return `Your daily job limit is ${limits.jobs}.`;
+    if (lines > limits.lines) return `This request needs ${lines} lines, more than your daily limit of ${limits.lines}.`;
+    const day = today();
+    try {
+        await UsageModel.updateOne({ userId: user.id, day }, { $setOnInsert: { jobs: 0, lines: 0 } }, { upsert: true });
+    } catch (error: any) {
+        // Another request created today's record first.
+        if (error.code !== 11000) throw error;
+    }
+    const updated = await UsageModel.findOneAndUpdate(
+        { userId: user.id, day, jobs: { $lte: limits.jobs - jobs }, lines: { $lte: limits.lines - lines } },
+        { $inc: { jobs, lines } },
+        { new: true }
+    ).lean();
+    if (updated) return null;
+    const usage = await getUsage(user);
+    return `Daily quota reached: ${usage.jobs} of ${limits.jobs} jobs and ${usage.lines} of ${limits.lines} lines used today (UTC); this request needs ${jobs} job(s) and ${lines} line(s).`;
+}
+
+function quotaLimits(user: User): { jobs: number, lines: number } | null {
+    if (user.role === 'admin') return null;
+    return { jobs: user.dailyJobQuota ?? DEFAULT_DAILY_JOBS, lines: user.dailyLineQuota ?? DEFAULT_DAILY_LINES };
+}
+
+function toUser(doc: any): User {
+    return {
+        id: String(doc._id),
+        name: doc.name,
+        role: doc.role,
+        keyPrefix: doc.keyPrefix,
+        dailyJobQuota: doc.dailyJobQuota ?? null,
+        dailyLineQuota: doc.dailyLineQuota ?? null,
+        createdAt: new Date(doc.createdAt).toISOString(),
+    };
+}
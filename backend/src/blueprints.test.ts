@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { editedTerms, mergeIntoSeries } from './blueprints';
+import { GlossaryTerm, SeriesBlueprint, TranslationBlueprint } from './types';
+
+const term = (name: string, translation: string): GlossaryTerm => ({
+    term: name, definition: '', proposedTranslation: translation, translationType: 'Direct Translation', justification: '', alternatives: [],
+});
+const blueprint = (glossary: GlossaryTerm[]): TranslationBlueprint => ({ summary: '', keyPoints: [], characterProfiles: [], culturalNuances: [], glossary });
+const series: SeriesBlueprint = { characterProfiles: [], culturalNuances: [], glossaries: { ar: [term('Captain', 'قائد'), term('Ship', 'سفينة')] } };
+
+describe('mergeIntoSeries', () => {
+    it('adds new terms but only proposes differing translations of established ones', () => {
+        const { blueprint: merged, changes } = mergeIntoSeries(series, { ar: blueprint([term('captain', 'ربان'), term('Ship', 'سفينة'), term('Harbour', 'ميناء')]) });
+
+        assert.deepEqual(merged.glossaries.ar.map(entry => entry.proposedTranslation), ['قائد', 'سفينة', 'ميناء']);
+        assert.deepEqual(changes.addedTerms, { ar: [term('Harbour', 'ميناء')] });
+        assert.deepEqual(changes.changedTerms, {});
+        assert.deepEqual(changes.proposedTerms, { ar: [{ term: 'captain', from: 'قائد', to: 'ربان' }] });
+    });
+
+    it('applies translations a reviewer approved', () => {
+        const { blueprint: merged, changes } = mergeIntoSeries(series, { ar: blueprint([term('Captain', 'ربان'), term('Ship', 'مركب')]) }, { ar: ['CAPTAIN'] });
+
+        assert.deepEqual(merged.glossaries.ar.map(entry => entry.proposedTranslation), ['ربان', 'سفينة']);
+        assert.deepEqual(changes.changedTerms, { ar: [{ term: 'Captain', from: 'قائد', to: 'ربان' }] });
+        assert.deepEqual(changes.proposedTerms, { ar: [{ term: 'Ship', from: 'سفينة', to: 'مركب' }] });
+    });
+});
+
+describe('editedTerms', () => {
+    it('lists the terms changed or added at approval, by language', () => {
+        const generated = { ar: blueprint([term('Captain', 'قائد'), term('Ship', 'سفينة')]), fr: blueprint([term('Captain', 'Capitaine')]) };
+        const approved = { ar: blueprint([term('Captain', 'ربان'), term('Ship', ' سفينة '), term('Harbour', 'ميناء')]), fr: blueprint([term('Captain', 'Capitaine')]) };
+
+        assert.deepEqual(editedTerms(generated, approved), { ar: ['Captain', 'Harbour'] });
+    });
+});
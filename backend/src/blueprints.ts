@@ -0,0 +1,204 @@
+import { BlueprintSet, CharacterProfile, EpisodeChanges, GlossaryTerm, Keyword, SceneNotes, SeriesBlueprint, TermChange, TranslationBlueprint, TranslationType } from './types';
+
+export const TRANSLATION_TYPES: TranslationType[] = ['Transliteration', 'Direct Translation', 'Hybrid', 'Common Usage', 'Adaptation'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+/**
+ * Checks an edited blueprint set before a job resumes with it. Returns an error
+ * message naming the first problem, or null. Every target language of the job
+ * needs a blueprint, and nothing else may be added.
+ */
+export function validateBlueprintSet(value: unknown, targetLanguages: string[]): string | null {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return 'blueprints must be an object keyed by target language.';
+    const set = value as Record<string, any>;
+    const unexpected = Object.keys(set).find(language => !targetLanguages.includes(language));
+    if (unexpected) return `The job does not translate into "${unexpected}".`;
+
+    for (const language of targetLanguages) {
+        const blueprint = set[language];
+        const where = `Blueprint "${language}"`;
+        if (blueprint === null || typeof blueprint !== 'object') return `${where} is missing.`;
+        if (!isString(blueprint.summary) || !blueprint.summary.trim()) return `${where} needs a summary.`;
+        if (!isStringList(blueprint.keyPoints)) return `${where}: keyPoints must be a list of strings.`;
+        if (!isStringList(blueprint.culturalNuances)) return `${where}: culturalNuances must be a list of strings.`;
+        if (!Array.isArray(blueprint.characterProfiles)) return `${where}: characterProfiles must be a list.`;
+        const profile = blueprint.characterProfiles.findIndex((p: any) => !p || !isString(p.personaName) || !p.personaName.trim() || !isString(p.speakingStyle) || !isString(p.voiceConsistencyRule));
+        if (profile !== -1) return `${where}: character profile ${profile + 1} needs a personaName, speakingStyle and voiceConsistencyRule.`;
+        if (!Array.isArray(blueprint.glossary)) return `${where}: glossary must be a list.`;
+        for (const [i, term] of blueprint.glossary.entries()) {
+            const entry = `${where}: glossary entry ${i + 1}`;
+            if (!term || !isString(term.term) || !term.term.trim() || !isString(term.proposedTranslation) || !term.proposedTranslation.trim()) {
+                return `${entry} needs a term and a proposedTranslation.`;
+            }
+            if (!TRANSLATION_TYPES.includes(term.translationType)) return `${entry} has an unknown translationType. Expected one of: ${TRANSLATION_TYPES.join(', ')}.`;
+            if (!isString(term.definition) || !isString(term.justification) || !isStringList(term.alternatives)) {
+                return `${entry} needs a definition, a justification and a list of alternatives.`;
+            }
+        }
+    }
+    return null;
+}
+
+/** Keeps only the fields the worker reads, in the job's target order. */
+export function normalizeBlueprintSet(set: BlueprintSet, targetLanguages: string[]): BlueprintSet {
+    return targetLanguages.reduce<BlueprintSet>((ordered, language) => {
+        const { summary, keyPoints, characterProfiles, culturalNuances, glossary } = set[language];
+        ordered[language] = {
+            summary: summary.trim(),
+            keyPoints,
+            characterProfiles: characterProfiles.map(({ personaName, speakingStyle, voiceConsistencyRule }) => ({ personaName, speakingStyle, voiceConsistencyRule })),
+            culturalNuances,
+            glossary: glossary.map(({ term, definition, proposedTranslation, translationType, justification, alternatives }) => ({
+                term: term.trim(), definition, proposedTranslation: proposedTranslation.trim(), translationType, justification, alternatives,
+            })),
+        };
+        return ordered;
+    }, {});
+}
+
+const noteKey = (text: string) => text.normalize('NFC').trim().toLowerCase();
+const distinct = (items: string[]) => items.filter((item, i) => item.trim() && items.findIndex(other => noteKey(other) === noteKey(item)) === i);
+
+/** Keywords found in several chunks are kept once, with the first definition seen. */
+export function mergeKeywords(lists: Keyword[][]): Keyword[] {
+    const byTerm = new Map<string, Keyword>();
+    lists.forEach(list => list.forEach(keyword => {
+        if (keyword.term.trim() && !byTerm.has(noteKey(keyword.term))) byTerm.set(noteKey(keyword.term), keyword);
+    }));
+    return [...byTerm.values()];
+}
+
+/**
+ * Combines the notes of every chunk, in script order. A character seen in
+ * several chunks becomes one profile carrying all of their distinct notes;
+ * key points and nuances are deduplicated.
+ */
+export function mergeSceneNotes(notes: SceneNotes[]): { summaries: string[], keyPoints: string[], characters: CharacterProfile[], culturalNuances: string[] } {
+    const characters = new Map<string, { personaName: string, styles: string[], rules: string[] }>();
+    notes.forEach(note => note.characters.forEach(character => {
+        const key = noteKey(character.personaName);
+        if (!key) return;
+        const merged = characters.get(key) ?? { personaName: character.personaName.trim(), styles: [], rules: [] };
+        merged.styles.push(character.speakingStyle);
+        merged.rules.push(character.voiceConsistencyRule);
+        characters.set(key, merged);
+    }));
+    return {
+        summaries: notes.map(note => note.summary.trim()).filter(Boolean),
+        keyPoints: distinct(notes.reduce<string[]>((all, note) => all.concat(note.keyPoints), [])),
+        characters: [...characters.values()].map(({ personaName, styles, rules }) => ({
+            personaName, speakingStyle: distinct(styles).join(' '), voiceConsistencyRule: distinct(rules).join(' '),
+        })),
+        culturalNuances: distinct(notes.reduce<string[]>((all, note) => all.concat(note.culturalNuances), [])),
+    };
+}
+
+const sameProfile = (a: CharacterProfile, b: CharacterProfile) => a.speakingStyle.trim() === b.speakingStyle.trim() && a.voiceConsistencyRule.trim() === b.voiceConsistencyRule.trim();
+
+/**
+ * Lays an episode's freshly generated blueprint over its series blueprint. The
+ * series wins for established terms, except those in `overrides` (the job's own
+ * glossary); a character profile the episode returned under an established
+ * name replaces the series profile, since the analysis was asked to extend it.
+ */
+export function extendBlueprint(series: SeriesBlueprint, language: string, episode: TranslationBlueprint, overrides: string[]): TranslationBlueprint {
+    const overridden = new Set(overrides.map(noteKey));
+    const episodeProfiles = new Map(episode.characterProfiles.map(profile => [noteKey(profile.personaName), profile]));
+    const established = new Set(series.characterProfiles.map(profile => noteKey(profile.personaName)));
+    const episodeTerms = new Map(episode.glossary.map(term => [noteKey(term.term), term]));
+    const seriesTerms = series.glossaries[language] ?? [];
+    const knownTerms = new Set(seriesTerms.map(term => noteKey(term.term)));
+    return {
+        summary: episode.summary,
+        keyPoints: episode.keyPoints,
+        characterProfiles: [
+            ...series.characterProfiles.map(profile => {
+                const extended = episodeProfiles.get(noteKey(profile.personaName));
+                return extended ? { ...extended, personaName: profile.personaName } : profile;
+            }),
+            ...episode.characterProfiles.filter(profile => !established.has(noteKey(profile.personaName))),
+        ],
+        culturalNuances: distinct([...series.culturalNuances, ...episode.culturalNuances]),
+        glossary: [
+            ...seriesTerms.map(term => overridden.has(noteKey(term.term)) ? episodeTerms.get(noteKey(term.term)) ?? term : term),
+            ...episode.glossary.filter(term => !knownTerms.has(noteKey(term.term))),
+        ],
+    };
+}
+
+/**
+ * The terms, by target language, whose translation a reviewer set when
+ * approving blueprints: changed from the generated blueprint, or added.
+ */
+export function editedTerms(generated: BlueprintSet, approved: BlueprintSet): Record<string, string[]> {
+    const edited: Record<string, string[]> = {};
+    for (const [language, blueprint] of Object.entries(approved)) {
+        const before = new Map((generated[language]?.glossary ?? []).map(term => [noteKey(term.term), term.proposedTranslation.trim()]));
+        const terms = blueprint.glossary.filter(term => before.get(noteKey(term.term)) !== term.proposedTranslation.trim()).map(term => term.term);
+        if (terms.length > 0) edited[language] = terms;
+    }
+    return edited;
+}
+
+/**
+ * Folds a finished episode's blueprints into the series blueprint and reports
+ * what changed. Nothing is removed from the series: a term or character the
+ * episode did not use stays for later episodes. The analysis fields are shared
+ * by every target, so characters and nuances are read from the first one.
+ * An established term only takes the episode's translation when a reviewer
+ * approved it (`approvedTerms`, see editedTerms()); any other differing
+ * translation, such as a job glossary override, is only reported as proposed.
+ */
+export function mergeIntoSeries(
+    series: SeriesBlueprint, blueprints: BlueprintSet, approvedTerms: Record<string, string[]> = {}
+): { blueprint: SeriesBlueprint, changes: EpisodeChanges } {
+    const changes: EpisodeChanges = { addedCharacters: [], updatedCharacters: [], addedNuances: [], addedTerms: {}, changedTerms: {}, proposedTerms: {} };
+    const [first] = Object.values(blueprints);
+    const characterProfiles = [...series.characterProfiles];
+    for (const profile of first?.characterProfiles ?? []) {
+        const index = characterProfiles.findIndex(existing => noteKey(existing.personaName) === noteKey(profile.personaName));
+        if (index === -1) {
+            characterProfiles.push(profile);
+            changes.addedCharacters.push(profile);
+        } else if (!sameProfile(characterProfiles[index], profile)) {
+            characterProfiles[index] = { ...profile, personaName: characterProfiles[index].personaName };
+            changes.updatedCharacters.push(characterProfiles[index]);
+        }
+    }
+    const knownNuances = new Set(series.culturalNuances.map(noteKey));
+    changes.addedNuances = distinct(first?.culturalNuances ?? []).filter(nuance => !knownNuances.has(noteKey(nuance)));
+
+    const glossaries: Record<string, GlossaryTerm[]> = { ...series.glossaries };
+    for (const [language, blueprint] of Object.entries(blueprints)) {
+        const terms = [...(glossaries[language] ?? [])];
+        const approved = new Set((approvedTerms[language] ?? []).map(noteKey));
+        const added: GlossaryTerm[] = [];
+        const changed: TermChange[] = [];
+        const proposed: TermChange[] = [];
+        for (const term of blueprint.glossary) {
+            const index = terms.findIndex(existing => noteKey(existing.term) === noteKey(term.term));
+            if (index === -1) {
+                terms.push(term);
+                added.push(term);
+            } else if (terms[index].proposedTranslation.trim() !== term.proposedTranslation.trim()) {
+                const change = { term: term.term, from: terms[index].proposedTranslation, to: term.proposedTranslation };
+                if (!approved.has(noteKey(term.term))) {
+                    proposed.push(change);
+                    continue;
+                }
+                changed.push(change);
+                terms[index] = term;
+            }
+        }
+        glossaries[language] = terms;
+        if (added.length > 0) changes.addedTerms[language] = added;
+        if (changed.length > 0) changes.changedTerms[language] = changed;
+        if (proposed.length > 0) changes.proposedTerms[language] = proposed;
+    }
+    return {
+        blueprint: { characterProfiles, culturalNuances: [...series.culturalNuances, ...changes.addedNuances], glossaries },
+        changes,
+    };
+}
@@ -0,0 +1,86 @@
+import { CheckpointModel, ScriptVectorModel } from './db';
+import { BlueprintSet, LineOrigin } from './types';
+import { DEFAULT_TARGET_LANGUAGES } from './languages';
+import { VectorRecord } from './vector.store';
+
+export interface JobCheckpoint {
+    blueprints: BlueprintSet | null;
+    // Translated text keyed by target language, then by cue sequence.
+    lines: Map<string, Map<number, string>>;
+    // What produced each of those lines, keyed the same way.
+    origins: Map<string, Map<number, LineOrigin>>;
+}
+
+/**
+ * Checkpoints written before jobs had several targets hold a single `blueprint`
+ * and lines keyed by sequence alone; both belong to the only target those jobs
+ * had, the default one.
+ */
+export async function loadCheckpoint(jobId: string): Promise<JobCheckpoint> {
+    const doc: any = await CheckpointModel.findOne({ jobId }).lean();
+    const [legacyLanguage] = DEFAULT_TARGET_LANGUAGES;
+    const blueprints = doc?.blueprints ?? (doc?.blueprint ? { [legacyLanguage]: doc.blueprint } : null);
+    return { blueprints, lines: bySequence<string>(byLanguage(doc?.lines, legacyLanguage)), origins: bySequence<LineOrigin>(doc?.origins) };
+}
+
+// Moves legacy `{ [sequence]: text }` entries under `language`, next to any lines saved for it since.
+function byLanguage(stored: Record<string, any> | undefined, language: string): Record<string, Record<string, string>> {
+    const languages: Record<string, Record<string, string>> = {};
+    const legacy: Record<string, string> = {};
+    for (const [key, value] of Object.entries(stored ?? {})) {
+        if (typeof value === 'string') legacy[key] = value;
+        else languages[key] = value;
+    }
+    if (Object.keys(legacy).length > 0) languages[language] = { ...legacy, ...languages[language] };
+    return languages;
+}
+
+function bySequence<T>(stored: Record<string, Record<string, T>> | undefined): Map<string, Map<number, T>> {
+    const languages = new Map<string, Map<number, T>>();
+    for (const [language, values] of Object.entries(stored ?? {})) {
+        const lines = new Map<number, T>();
+        for (const [sequence, value] of Object.entries(values)) lines.set(parseInt(sequence, 10), value);
+        languages.set(language, lines);
+    }
+    return languages;
+}
+
+export async function saveBlueprints(jobId: string, blueprints: BlueprintSet): Promise<void> {
+    await CheckpointModel.updateOne({ jobId }, { $set: { blueprints } }, { upsert: true });
+}
+
+/** Without an `origin` the line keeps the one recorded before. */
+export async function saveLine(jobId: string, language: string, sequence: number, translatedText: string, origin?: LineOrigin): Promise<void> {
+    const update: Record<string, string> = { [`lines.${language}.${sequence}`]: translatedText };
+    if (origin) update[`origins.${language}.${sequence}`] = origin;
+    await CheckpointModel.updateOne({ jobId }, { $set: update }, { upsert: true });
+}
+
+/** Called once the job's result is stored; everything a retry would need is in it. */
+export async function deleteCheckpoint(jobId: string): Promise<void> {
+    await CheckpointModel.deleteOne({ jobId });
+}
+
+/** Stores the job's source line embeddings; `records` are keyed `<jobId>-<sequence>` as the worker indexes them. */
+export async function saveScriptVectors(jobId: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await ScriptVectorModel.bulkWrite(records.map(record => {
+        const sequence = parseInt(record.id.slice(record.id.lastIndexOf('-') + 1), 10);
+        return {
+            updateOne: {
+                filter: { jobId, sequence },
+                update: { $set: { jobId, sequence, text: record.text, values: record.values } },
+                upsert: true,
+            },
+        };
+    }));
+}
+
+export async function deleteScriptVectors(jobId: string): Promise<void> {
+    await ScriptVectorModel.deleteMany({ jobId });
+}
+
+export async function loadScriptVectors(jobId: string): Promise<VectorRecord[]> {
+    const docs = await ScriptVectorModel.find({ jobId }).lean();
+    return docs.map((doc: any) => ({ id: `${jobId}-${doc.sequence}`, values: doc.values, text: doc.text }));
+}
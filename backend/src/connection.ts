@@ -0,0 +1,13 @@
+import IORedis from 'ioredis';
+
+export const TRANSLATION_QUEUE = 'translation-jobs';
+
+export const redisConnection = { host: process.env.REDIS_HOST || '127.0.0.1', port: parseInt(process.env.REDIS_PORT || '6379', 10) };
+
+let redis: IORedis | null = null;
+
+// Shared client for our own keys (cancellation flags etc.); BullMQ manages its own connections.
+export function getRedis(): IORedis {
+    if (!redis) redis = new IORedis(redisConnection);
+    return redis;
+}
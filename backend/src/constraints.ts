@@ -0,0 +1,157 @@
+import { ComplianceIssue, ComplianceReport, CueCompliance, SubtitleConstraints } from './types';
+import { LanguageProfile } from './languages';
+import { PLACEHOLDER_PATTERN } from './markup';
+
+// Common broadcast limits for adult programmes.
+export const DEFAULT_CONSTRAINTS: SubtitleConstraints = {
+    maxCps: 17,
+    maxCharsPerLine: 42,
+    maxLinesPerCue: 2,
+};
+
+const INVISIBLE_PATTERN = /[\u200C\u200D\u200E\u200F\u061C]/g;
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_CHAR = /[A-Za-z\u00C0-\u024F\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const RLM = '\u200F';
+
+// Punctuation that must stay on the line it closes.
+const LEADING_PUNCTUATION = ['.', '،', '؛', '؟', '!', ',', '?', '…', '۔'];
+
+export function resolveConstraints(overrides: Partial<SubtitleConstraints> = {}): SubtitleConstraints {
+    return { ...DEFAULT_CONSTRAINTS, ...overrides };
+}
+
+/** Returns an error message for the first unusable value, or null. */
+export function validateConstraints(overrides: Partial<SubtitleConstraints> | undefined): string | null {
+    for (const [key, value] of Object.entries(overrides ?? {})) {
+        if (!(key in DEFAULT_CONSTRAINTS)) return `Unknown constraint "${key}".`;
+        if (typeof value !== 'number' || !isFinite(value) || value <= 0) return `Constraint "${key}" must be a positive number.`;
+    }
+    return null;
+}
+
+/** Characters a viewer actually reads: no placeholders or bidi marks; a line break counts like the space it replaced. */
+export function visibleLength(text: string): number {
+    return text.replace(PLACEHOLDER_PATTERN, '').replace(INVISIBLE_PATTERN, '').length;
+}
+
+/** The words of a cue without placeholders, bidi marks or line breaks, for comparing texts. */
+export function plainText(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, '').replace(INVISIBLE_PATTERN, '').replace(/\s+/g, ' ').trim();
+}
+
+/** How many characters a cue can hold: the reading-speed budget, capped by what fits on screen. */
+export function characterBudget(durationSeconds: number, constraints: SubtitleConstraints): number {
+    const byReadingSpeed = Math.floor(constraints.maxCps * Math.max(durationSeconds, 0));
+    return Math.min(byReadingSpeed, constraints.maxCharsPerLine * constraints.maxLinesPerCue);
+}
+
+export function fitsBudget(text: string, durationSeconds: number, constraints: SubtitleConstraints): boolean {
+    return visibleLength(text) <= characterBudget(durationSeconds, constraints);
+}
+
+interface BreakRules {
+    breakBefore: Set<string>;
+    breakAfter: Set<string>;
+}
+
+/**
+ * Re-wraps a cue into the fewest lines that respect `maxCharsPerLine`, balancing
+ * line lengths and keeping function words with the phrase they belong to. RTL
+ * lines whose first strong character is not RTL (a name, a number, a Latin
+ * acronym) get a leading RLM so players do not flip them to left-to-right.
+ * Without a language profile, direction is guessed from the script.
+ */
+export function breakLines(text: string, constraints: SubtitleConstraints, language?: LanguageProfile): string {
+    const words = text.replace(INVISIBLE_PATTERN, mark => mark === '\u200C' ? mark : '').split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '';
+    const rtl = language ? language.direction === 'rtl' : RTL_CHAR.test(text);
+    const rules: BreakRules = {
+        breakBefore: new Set(language?.breakBefore ?? []),
+        breakAfter: new Set([...(language?.breakAfter ?? []), ...LEADING_PUNCTUATION]),
+    };
+    const lines = layout(words, constraints, rules);
+    return lines.map(line => rtl && !startsRtl(line) ? `${RLM}${line}` : line).join('\n');
+}
+
+const OVERFLOW_COST = 10_000;
+
+function layout(words: string[], { maxCharsPerLine, maxLinesPerCue }: SubtitleConstraints, rules: BreakRules): string[] {
+    const total = visibleLength(words.join(' '));
+    if (total <= maxCharsPerLine || words.length === 1) return [words.join(' ')];
+
+    let best: { cost: number, lines: string[] } | null = null;
+    const maxLines = Math.min(maxLinesPerCue, words.length);
+    for (let count = 2; count <= maxLines; count++) {
+        const candidate = bestSplit(words, count, maxCharsPerLine, total / count, rules);
+        if (!best || candidate.cost < best.cost) best = candidate;
+        // Fewer lines win as soon as they fit; extra lines only help an overflowing cue.
+        if (candidate.cost < OVERFLOW_COST) break;
+    }
+    return best!.lines;
+}
+
+// Small DP over word boundaries: each line costs its squared distance from an even split plus phrasing penalties.
+function bestSplit(words: string[], count: number, maxChars: number, target: number, rules: BreakRules): { cost: number, lines: string[] } {
+    const memo = new Map<string, { cost: number, lines: string[] }>();
+    const solve = (start: number, remaining: number): { cost: number, lines: string[] } => {
+        const key = `${start}:${remaining}`;
+        const cached = memo.get(key);
+        if (cached) return cached;
+        let result = { cost: Infinity, lines: [] as string[] };
+        const lastEnd = remaining === 1 ? words.length : words.length - remaining + 1;
+        for (let end = remaining === 1 ? words.length : start + 1; end <= lastEnd; end++) {
+            const lineWords = words.slice(start, end);
+            const isLast = remaining === 1;
+            const rest = isLast ? { cost: 0, lines: [] } : solve(end, remaining - 1);
+            const cost = lineCost(lineWords, isLast ? undefined : words[end], maxChars, target, rules) + rest.cost;
+            if (cost < result.cost) result = { cost, lines: [lineWords.join(' '), ...rest.lines] };
+        }
+        memo.set(key, result);
+        return result;
+    };
+    return solve(0, count);
+}
+
+function lineCost(lineWords: string[], nextWord: string | undefined, maxChars: number, target: number, rules: BreakRules): number {
+    const length = visibleLength(lineWords.join(' '));
+    let cost = (length - target) ** 2;
+    if (length > maxChars) cost += OVERFLOW_COST + (length - maxChars) * 100;
+    if (nextWord !== undefined) {
+        if (rules.breakBefore.has(bareWord(lineWords[lineWords.length - 1]))) cost += 200;
+        if (rules.breakAfter.has(bareWord(nextWord))) cost += 200;
+        // Prefer breaking after clause punctuation when it is anywhere near the middle.
+        if (/[.,،;؛:!?؟…۔]$/.test(lineWords[lineWords.length - 1].replace(PLACEHOLDER_PATTERN, ''))) cost -= 50;
+    }
+    return cost;
+}
+
+function bareWord(word: string): string {
+    return word.replace(PLACEHOLDER_PATTERN, '').toLowerCase();
+}
+
+function startsRtl(line: string): boolean {
+    const firstStrong = line.replace(PLACEHOLDER_PATTERN, '').match(STRONG_CHAR)?.[0];
+    return !firstStrong || RTL_CHAR.test(firstStrong);
+}
+
+export function measureCue(sequence: number, text: string, durationSeconds: number, condensed: boolean, constraints: SubtitleConstraints): CueCompliance {
+    const lines = text.split('\n');
+    const characters = visibleLength(text);
+    const cps = durationSeconds > 0 ? characters / durationSeconds : Infinity;
+    const longestLine = Math.max(...lines.map(line => visibleLength(line)));
+    const issues: ComplianceIssue[] = [];
+    if (cps > constraints.maxCps) issues.push('cps');
+    if (longestLine > constraints.maxCharsPerLine) issues.push('line_length');
+    if (lines.length > constraints.maxLinesPerCue) issues.push('line_count');
+    return { sequence, characters, cps: Math.round(cps * 10) / 10, lineCount: lines.length, longestLine, condensed, issues };
+}
+
+export function buildComplianceReport(cues: CueCompliance[], constraints: SubtitleConstraints): ComplianceReport {
+    return {
+        constraints,
+        compliantCues: cues.filter(cue => cue.issues.length === 0).length,
+        totalCues: cues.length,
+        cues,
+    };
+}
@@ -0,0 +1,62 @@
+import { CorrectionModel } from './db';
+import { LineCorrection, ReviewedCue, SubtitleDocument } from './types';
+import { editDistance } from './translation.memory';
+
+// Bidi marks are layout hints the writer adds; a reviewer deleting one has not changed the line.
+const stripBidiMarks = (text: string) => text.replace(/[\u200E\u200F\u061C]/g, '');
+
+/**
+ * Lines the reviewed file up with the model's output by cue sequence. Both are
+ * parsed from the same output format, so sequences agree; a cue only counts if
+ * its start time is also unchanged, which guards against deleted or inserted
+ * cues in formats that number cues by position. The model's output was written
+ * from the source lines in order, so position maps it back to the source.
+ */
+export function alignReview(source: SubtitleDocument, machine: SubtitleDocument, edited: SubtitleDocument): ReviewedCue[] {
+    const editedBySequence = new Map(edited.lines.map(line => [line.sequence, line]));
+    const cues: ReviewedCue[] = [];
+    machine.lines.forEach((machineLine, i) => {
+        const sourceLine = source.lines[i];
+        const editedLine = editedBySequence.get(machineLine.sequence);
+        if (!sourceLine || !editedLine || editedLine.startTime !== machineLine.startTime) return;
+        cues.push({
+            sequence: sourceLine.sequence,
+            sourceText: sourceLine.text,
+            aiText: machineLine.text,
+            userText: editedLine.text,
+            changed: stripBidiMarks(machineLine.text) !== stripBidiMarks(editedLine.text),
+        });
+    });
+    return cues;
+}
+
+/** Stores one correction per changed cue, replacing an earlier review of the same cue. */
+export async function saveCorrections(jobId: string, language: string, cues: ReviewedCue[]): Promise<LineCorrection[]> {
+    const corrections: LineCorrection[] = cues.filter(cue => cue.changed).map(cue => {
+        const distance = editDistance(cue.aiText, cue.userText);
+        return {
+            jobId, language,
+            sequence: cue.sequence,
+            sourceText: cue.sourceText,
+            aiText: cue.aiText,
+            userText: cue.userText,
+            editDistance: distance,
+            changeRatio: Math.round(distance / Math.max(cue.aiText.length, cue.userText.length, 1) * 1000) / 1000,
+        };
+    });
+    if (corrections.length > 0) {
+        await CorrectionModel.bulkWrite(corrections.map(correction => ({
+            updateOne: {
+                filter: { jobId, language, sequence: correction.sequence },
+                update: { $set: { ...correction } },
+                upsert: true,
+            },
+        })));
+    }
+    return corrections;
+}
+
+// Whole-file corrections from before reviews were aligned cue by cue have no sequence and are not listed.
+export async function listCorrections(jobId: string): Promise<LineCorrection[]> {
+    return CorrectionModel.find({ jobId, sequence: { $exists: true } }, { _id: 0, __v: 0 }).sort({ language: 1, sequence: 1 }).lean<LineCorrection[]>();
+}
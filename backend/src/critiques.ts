@@ -0,0 +1,18 @@
+import { CritiqueModel } from './db';
+import { LineCritique } from './types';
+
+/** Stores the critic's notes for refined lines, replacing those of an earlier attempt at the same cue. */
+export async function saveCritiques(critiques: LineCritique[]): Promise<void> {
+    if (critiques.length === 0) return;
+    await CritiqueModel.bulkWrite(critiques.map(critique => ({
+        updateOne: {
+            filter: { jobId: critique.jobId, language: critique.language, sequence: critique.sequence },
+            update: { $set: { ...critique } },
+            upsert: true,
+        },
+    })));
+}
+
+export async function listCritiques(jobId: string, language?: string): Promise<LineCritique[]> {
+    return CritiqueModel.find({ jobId, ...(language ? { language } : {}) }, { _id: 0, __v: 0 }).sort({ language: 1, sequence: 1 }).lean<LineCritique[]>();
+}
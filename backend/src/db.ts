@@ -0,0 +1,189 @@
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+    throw new Error('Please define the MONGODB_URI environment variable');
+}
+
+export const connectDB = async () => {
+    try {
+        await mongoose.connect(MONGODB_URI);
+        // Project names used to be unique across all users, and the correction index used to cover documents without a
+        // sequence; this replaces both indexes with the current ones.
+        await ProjectModel.syncIndexes();
+        await CorrectionModel.syncIndexes();
+        console.log('MongoDB connected successfully.');
+    } catch (err: any) {
+        console.error('MongoDB connection error:', err.message);
+        process.exit(1);
+    }
+};
+
+// One document per reviewed cue that the user changed.
+const correctionSchema = new mongoose.Schema<any>({
+    jobId: { type: String, required: true, index: true },
+    language: { type: String, required: true },
+    sequence: { type: Number, required: true },
+    sourceText: { type: String, required: true },
+    aiText: { type: String, required: true },
+    userText: { type: String, required: true },
+    editDistance: { type: Number, required: true },
+    changeRatio: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now },
+});
+// Corrections from before reviews were aligned cue by cue have no sequence and are left out of the index.
+correctionSchema.index({ jobId: 1, language: 1, sequence: 1 }, { unique: true, partialFilterExpression: { sequence: { $exists: true } } });
+
+export const CorrectionModel = mongoose.model('Correction', correctionSchema);
+
+// One document per cue that thinking mode's critic sent back for refinement.
+const critiqueSchema = new mongoose.Schema<any>({
+    jobId: { type: String, required: true, index: true },
+    language: { type: String, required: true },
+    sequence: { type: Number, required: true },
+    sourceText: { type: String, required: true },
+    draft: { type: String, required: true },
+    issues: { type: [String], default: [] },
+    refined: { type: String, required: true },
+    createdAt: { type: Date, default: Date.now },
+});
+critiqueSchema.index({ jobId: 1, language: 1, sequence: 1 }, { unique: true });
+
+export const CritiqueModel = mongoose.model('Critique', critiqueSchema);
+
+const checkpointSchema = new mongoose.Schema<any>({
+    jobId: { type: String, required: true, unique: true },
+    blueprints: { type: mongoose.Schema.Types.Mixed, default: null },
+    // { [language]: { [sequence]: text } }
+    lines: { type: mongoose.Schema.Types.Mixed, default: {} },
+    // { [language]: { [sequence]: LineOrigin } }
+    origins: { type: mongoose.Schema.Types.Mixed, default: {} },
+}, { timestamps: true });
+
+// How long per-job working data (checkpoints, script embeddings) is kept after it was last written.
+const CHECKPOINT_TTL_SECONDS = parseInt(process.env.CHECKPOINT_TTL_DAYS || '30', 10) * 24 * 60 * 60;
+
+// A completed job's checkpoint is deleted with its result stored; this expires those of jobs that failed or were abandoned.
+checkpointSchema.index({ updatedAt: 1 }, { expireAfterSeconds: CHECKPOINT_TTL_SECONDS });
+
+export const CheckpointModel = mongoose.model('Checkpoint', checkpointSchema);
+
+// The embedding of each source line of a job, kept after the job so retranslations can search the script without embedding it again.
+const scriptVectorSchema = new mongoose.Schema<any>({
+    jobId: { type: String, required: true },
+    sequence: { type: Number, required: true },
+    text: { type: String, required: true },
+    values: { type: [Number], required: true },
+}, { timestamps: true });
+scriptVectorSchema.index({ jobId: 1, sequence: 1 }, { unique: true });
+// Retranslations embed the script again once these have expired.
+scriptVectorSchema.index({ updatedAt: 1 }, { expireAfterSeconds: CHECKPOINT_TTL_SECONDS });
+
+export const ScriptVectorModel = mongoose.model('ScriptVector', scriptVectorSchema);
+
+const translationMemorySchema = new mongoose.Schema<any>({
+    sourceLanguage: { type: String, required: true },
+    targetLanguage: { type: String, required: true },
+    sourceText: { type: String, required: true },
+    normalizedSource: { type: String, required: true },
+    targetText: { type: String, required: true },
+    origin: { type: String, enum: ['approved', 'corrected'], required: true },
+    jobId: { type: String, required: true },
+}, { timestamps: true });
+translationMemorySchema.index({ sourceLanguage: 1, targetLanguage: 1, normalizedSource: 1 }, { unique: true });
+// language 'none' keeps stop-word removal and stemming from discarding short subtitle lines.
+translationMemorySchema.index({ sourceText: 'text' }, { default_language: 'none', language_override: 'textLanguage' });
+
+export const TranslationMemoryModel = mongoose.model('TranslationMemory', translationMemorySchema);
+
+const glossaryEntrySchema = new mongoose.Schema<any>({
+    id: { type: String, required: true },
+    term: { type: String, required: true },
+    translation: { type: String, required: true },
+    note: { type: String },
+}, { _id: false });
+
+const glossarySchema = new mongoose.Schema<any>({
+    name: { type: String, required: true, unique: true },
+    description: { type: String, default: '' },
+    sourceLanguage: { type: String, required: true },
+    targetLanguage: { type: String, required: true },
+    version: { type: Number, default: 1 },
+    entries: { type: [glossaryEntrySchema], default: [] },
+}, { timestamps: true });
+
+export const GlossaryModel = mongoose.model('Glossary', glossarySchema);
+
+// The entries of every glossary version, so jobs can be traced back to the terms they used.
+const glossaryRevisionSchema = new mongoose.Schema<any>({
+    glossaryId: { type: String, required: true },
+    version: { type: Number, required: true },
+    entries: { type: [glossaryEntrySchema], default: [] },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+glossaryRevisionSchema.index({ glossaryId: 1, version: 1 }, { unique: true });
+
+export const GlossaryRevisionModel = mongoose.model('GlossaryRevision', glossaryRevisionSchema);
+
+// The cumulative blueprint of a series; `blueprint` holds a SeriesBlueprint.
+const projectSchema = new mongoose.Schema<any>({
+    ownerId: { type: String, default: null },
+    name: { type: String, required: true },
+    description: { type: String, default: '' },
+    sourceLanguage: { type: String, required: true },
+    version: { type: Number, default: 1 },
+    blueprint: { type: mongoose.Schema.Types.Mixed, default: () => ({ characterProfiles: [], culturalNuances: [], glossaries: {} }) },
+}, { timestamps: true, minimize: false });
+// Names only have to differ between one user's projects.
+projectSchema.index({ ownerId: 1, name: 1 }, { unique: true });
+
+export const ProjectModel = mongoose.model('Project', projectSchema);
+
+// One record per finished job of a project, with what its blueprint added to the series.
+const projectEpisodeSchema = new mongoose.Schema<any>({
+    projectId: { type: String, required: true },
+    jobId: { type: String, required: true, unique: true },
+    episode: { type: String, required: true },
+    version: { type: Number, required: true },
+    changes: { type: mongoose.Schema.Types.Mixed, required: true },
+}, { timestamps: { createdAt: true, updatedAt: false }, minimize: false });
+projectEpisodeSchema.index({ projectId: 1, createdAt: 1 });
+
+export const ProjectEpisodeModel = mongoose.model('ProjectEpisode', projectEpisodeSchema);
+
+// API users. Only a hash of the key is stored; `keyPrefix` lets people tell their keys apart.
+const userSchema = new mongoose.Schema<any>({
+    name: { type: String, required: true, unique: true },
+    role: { type: String, enum: ['admin', 'user'], default: 'user' },
+    keyHash: { type: String, required: true, unique: true },
+    keyPrefix: { type: String, required: true },
+    // Null means the server default.
+    dailyJobQuota: { type: Number, default: null },
+    dailyLineQuota: { type: Number, default: null },
+}, { timestamps: true });
+
+export const UserModel = mongoose.model('User', userSchema);
+
+// Jobs and lines a user has queued per UTC day, for quotas.
+const usageSchema = new mongoose.Schema<any>({
+    userId: { type: String, required: true },
+    day: { type: String, required: true },
+    jobs: { type: Number, default: 0 },
+    lines: { type: Number, default: 0 },
+});
+usageSchema.index({ userId: 1, day: 1 }, { unique: true });
+
+export const UsageModel = mongoose.model('Usage', usageSchema);
+
+// Model calls and tokens per job, stage and model; a job's attempts and later retranslations add to the same records.
+const tokenUsageSchema = new mongoose.Schema<any>({
+    jobId: { type: String, required: true },
+    stage: { type: String, required: true },
+    model: { type: String, required: true },
+    calls: { type: Number, default: 0 },
+    inputTokens: { type: Number, default: 0 },
+    outputTokens: { type: Number, default: 0 },
+});
+tokenUsageSchema.index({ jobId: 1, stage: 1, model: 1 }, { unique: true });
+
+export const TokenUsageModel = mongoose.model('TokenUsage', tokenUsageSchema);
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateRawSync } from 'zlib';
+import { buildDeliverable, DeliverableMeta, DeliverableRow, parseXliff } from './deliverables';
+import { restoreMarkup } from './markup';
+import { parseSubtitles } from './subtitle.formats';
+
+const source = parseSubtitles([
+    '1', '00:00:01,000 --> 00:00:02,000', '{\\an8}<i>Hello</i> & bye.', '',
+    '2', '00:00:03,000 --> 00:00:04,000', '- Yes.', '',
+    '3', '00:00:05,000 --> 00:00:06,000', '=SUM(A1)', '',
+].join('\n'), 'srt').document;
+const output = parseSubtitles([
+    '1', '00:00:01,000 --> 00:00:02,000', '{\\an8}<i>مرحبا</i> و وداعا.', '',
+    '2', '00:00:03,000 --> 00:00:04,000', '- نعم.', '',
+    '3', '00:00:05,000 --> 00:00:06,000', '@cmd', '',
+].join('\n'), 'srt').document;
+const rows: DeliverableRow[] = source.lines.map((line, i) => ({ source: line, target: output.lines[i], origin: i === 0 ? null : 'human' }));
+const meta: DeliverableMeta = { jobId: 'job&1', sourceLanguage: 'en', targetLanguage: 'ar', output };
+
+// Reads one entry of the deflated ZIP written for XLSX by walking its local file headers.
+function unzipEntry(archive: Buffer, name: string): string {
+    let offset = 0;
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const compressedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const dataStart = offset + 30 + nameLength + archive.readUInt16LE(offset + 28);
+        if (archive.toString('utf8', offset + 30, offset + 30 + nameLength) === name) {
+            return inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+        }
+        offset = dataStart + compressedSize;
+    }
+    throw new Error(`${name} is not in the archive`);
+}
+
+describe('XLIFF export', () => {
+    it('writes one unit per cue with markup as inline codes', () => {
+        const xliff = buildDeliverable(rows, 'xliff', meta) as string;
+
+        assert.match(xliff, /<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="ar">/);
+        assert.match(xliff, /<file id="job-job&amp;1">/);
+        assert.match(xliff, /<note category="timing">00:00:01,000 --&gt; 00:00:02,000<\/note>/);
+        assert.match(xliff, /<source><ph id="x1" disp="\{\\an8\}"\/><sc id="t2" disp="&lt;i&gt;"\/>Hello<ec startRef="t2" disp="&lt;\/i&gt;"\/> &amp; bye.<\/source>/);
+        assert.match(xliff, /<unit id="c2">[\s\S]*?<target>- نعم.<\/target>/);
+    });
+
+    it('reads its own export back into the job\'s placeholders', () => {
+        const parsed = parseXliff(buildDeliverable(rows, 'xliff', meta) as string);
+
+        assert.equal(parsed.jobId, 'job&1');
+        assert.equal(parsed.sourceLanguage, 'en');
+        assert.equal(parsed.targetLanguage, 'ar');
+        assert.deepEqual(parsed.units, [
+            { sequence: 1, target: '<x1/><t2>مرحبا</t2> و وداعا.' },
+            { sequence: 2, target: '- نعم.' },
+            { sequence: 3, target: '@cmd' },
+        ]);
+        assert.equal(restoreMarkup(parsed.units[0].target, output.lines[0].markup, 'srt'), '{\\an8}<i>مرحبا</i> و وداعا.');
+    });
+
+    it('understands targets a CAT tool rewrote with <pc>, split segments and code points', () => {
+        const parsed = parseXliff(`<?xml version="1.0"?>
+<xliff version="2.1" srcLang="en-US" trgLang="ar-EG">
+  <file id="job-42">
+    <unit id="c1">
+      <segment><source>a</source><target><ph id="x1"/><pc id="t2">مرحبا</pc></target></segment>
+      <segment><source>b</source><target> و<cp hex="200F"/> وداعا &amp;lt;</target></segment>
+    </unit>
+    <unit id="c2"><segment><source>Untranslated.</source></segment></unit>
+    <unit id="u7"><segment><source>x</source><target>Not ours.</target></segment></unit>
+  </file>
+</xliff>`);
+
+        assert.equal(parsed.jobId, '42');
+        assert.equal(parsed.sourceLanguage, 'en');
+        assert.equal(parsed.targetLanguage, 'ar');
+        assert.deepEqual(parsed.units, [{ sequence: 1, target: '<x1/><t2>مرحبا</t2> و\u200F وداعا &lt;' }]);
+    });
+
+    it('rejects files it cannot match to a job', () => {
+        assert.throws(() => parseXliff('<tmx version="1.4"/>'), /not an XLIFF document/);
+        assert.throws(() => parseXliff('<xliff version="1.2" srcLang="en" trgLang="ar"></xliff>'), /version 1.2/);
+        assert.throws(() => parseXliff('<xliff version="2.0" srcLang="en"></xliff>'), /trgLang/);
+        assert.throws(() => parseXliff('<xliff version="2.0" srcLang="en" trgLang="ar"><file id="job-1"></file><file id="job-2"></file></xliff>'), /different jobs/);
+        assert.equal(parseXliff('<xliff version="2.0" srcLang="en" trgLang="ar"><file id="f1"></file></xliff>').jobId, null);
+    });
+});
+
+describe('review sheets', () => {
+    it('writes a UTF-8 CSV with formula-like cells neutralized', () => {
+        const csv = buildDeliverable(rows, 'csv', meta) as string;
+
+        assert.equal(csv, '\uFEFF' + [
+            'Sequence,Start,End,Source,Translation,Tier',
+            '1,"00:00:01,000","00:00:02,000",{\\an8}<i>Hello</i> & bye.,{\\an8}<i>مرحبا</i> و وداعا.,',
+            '2,"00:00:03,000","00:00:04,000",\'- Yes.,\'- نعم.,human',
+            '3,"00:00:05,000","00:00:06,000",\'=SUM(A1),\'@cmd,human',
+        ].join('\r\n') + '\r\n');
+    });
+
+    it('writes an XLSX workbook of inline strings', () => {
+        const xlsx = buildDeliverable(rows, 'xlsx', meta) as Buffer;
+        const sheet = unzipEntry(xlsx, 'xl/worksheets/sheet1.xml');
+
+        assert.match(unzipEntry(xlsx, '[Content_Types].xml'), /PartName="\/xl\/worksheets\/sheet1.xml"/);
+        assert.match(sheet, /<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">Sequence<\/t><\/is><\/c>/);
+        assert.match(sheet, /<c r="A2"><v>1<\/v><\/c>/);
+        assert.match(sheet, /<c r="D2" t="inlineStr"><is><t xml:space="preserve">\{\\an8\}&lt;i&gt;Hello&lt;\/i&gt; &amp; bye.<\/t><\/is><\/c>/);
+        assert.match(sheet, /<c r="F3" t="inlineStr"><is><t xml:space="preserve">human<\/t><\/is><\/c>/);
+    });
+});
@@ -0,0 +1,301 @@
+import { deflateRawSync } from 'zlib';
+import { displayText } from './markup';
+import { serializeSubtitles } from './subtitle.formats';
+import { LineOrigin, SrtLine, SubtitleDocument } from './types';
+
+export type DeliverableFormat = 'bilingual-srt' | 'bilingual-vtt' | 'csv' | 'xlsx' | 'xliff';
+
+export const DELIVERABLE_FORMATS: DeliverableFormat[] = ['bilingual-srt', 'bilingual-vtt', 'csv', 'xlsx', 'xliff'];
+
+const FILES: Record<DeliverableFormat, { extension: string, mimeType: string }> = {
+    'bilingual-srt': { extension: 'bilingual.srt', mimeType: 'application/x-subrip; charset=utf-8' },
+    'bilingual-vtt': { extension: 'bilingual.vtt', mimeType: 'text/vtt; charset=utf-8' },
+    csv: { extension: 'csv', mimeType: 'text/csv; charset=utf-8' },
+    xlsx: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    xliff: { extension: 'xlf', mimeType: 'application/xliff+xml; charset=utf-8' },
+};
+
+/** One cue of a finished job: the source line next to the line the job now delivers for it. */
+export interface DeliverableRow {
+    source: SrtLine;
+    target: SrtLine;
+    // Null for lines translated before origins were recorded.
+    origin: LineOrigin | null;
+}
+
+export interface DeliverableMeta {
+    jobId: string;
+    sourceLanguage: string;
+    targetLanguage: string;
+    // The job's translated file; its format decides which tags the sheets show, and a VTT header is kept.
+    output: SubtitleDocument;
+}
+
+// A target read back from an XLIFF unit, with its inline codes turned back into the job's placeholders.
+export interface XliffUnit {
+    sequence: number;
+    target: string;
+}
+
+/** Raised when an uploaded XLIFF file cannot be read. */
+export class DeliverableFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DeliverableFormatError';
+    }
+}
+
+const SHEET_COLUMNS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const PLACEHOLDER_SPLIT = /(<\/?t\d+>|<x\d+\/>)/;
+
+export function deliverableFile(format: DeliverableFormat): { extension: string, mimeType: string } {
+    return FILES[format];
+}
+
+export function buildDeliverable(rows: DeliverableRow[], format: DeliverableFormat, meta: DeliverableMeta): string | Buffer {
+    switch (format) {
+        case 'bilingual-srt': return toBilingual(rows, 'srt', meta.output);
+        case 'bilingual-vtt': return toBilingual(rows, 'vtt', meta.output);
+        case 'csv': return toCsv(sheetRows(rows, meta.output));
+        case 'xlsx': return toXlsx(sheetRows(rows, meta.output));
+        case 'xliff': return toXliff(rows, meta);
+    }
+}
+
+/**
+ * Reads the targets of an XLIFF 2.0 file written by toXliff(). `jobId` comes
+ * from the `job-<id>` file id, null when a tool renamed the file. Units are
+ * matched to cues by their `c<sequence>` id; a unit whose segments were split
+ * by a CAT tool has its targets joined again. Units without a target, and
+ * units this service did not write, are left out.
+ */
+export function parseXliff(content: string): { jobId: string | null, sourceLanguage: string, targetLanguage: string, units: XliffUnit[] } {
+    const root = content.match(/<xliff\b([^>]*)>/);
+    if (!root) throw new DeliverableFormatError('The file is not an XLIFF document.');
+    const version = attribute(root[1], 'version');
+    if (!version?.startsWith('2.')) throw new DeliverableFormatError(`Only XLIFF 2.x files can be imported; this one is version ${version ?? 'unknown'}.`);
+    const targetLanguage = attribute(root[1], 'trgLang');
+    if (!targetLanguage) throw new DeliverableFormatError('The XLIFF file does not name its target language (trgLang).');
+
+    const fileIds = (content.match(/<file\b[^>]*>/g) ?? []).map(file => attribute(file, 'id')?.match(/^job-(.+)$/)?.[1] ?? null);
+    if (fileIds.some(id => id !== fileIds[0])) throw new DeliverableFormatError('The XLIFF file mixes files from different jobs.');
+
+    const units: XliffUnit[] = [];
+    const unitPattern = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g;
+    let unit: RegExpExecArray | null;
+    while ((unit = unitPattern.exec(content)) !== null) {
+        const sequence = attribute(unit[1], 'id')?.match(/^c(\d+)$/)?.[1];
+        const targets = unit[2].match(/<target\b[^>]*>[\s\S]*?<\/target>/g);
+        if (!sequence || !targets) continue;
+        const target = targets.map(target => fromInlineCodes(target.replace(/^<target\b[^>]*>|<\/target>$/g, ''))).join('').trim();
+        if (target) units.push({ sequence: parseInt(sequence, 10), target });
+    }
+    return { jobId: fileIds[0] ?? null, sourceLanguage: languageCode(attribute(root[1], 'srcLang') ?? ''), targetLanguage: languageCode(targetLanguage), units };
+}
+
+// ---- Bilingual subtitles: the source above the translation in every cue.
+
+function toBilingual(rows: DeliverableRow[], format: 'srt' | 'vtt', output: SubtitleDocument): string {
+    const lines = rows.map(({ source, target }) => ({
+        ...target,
+        markup: undefined,
+        translatedText: `${displayText(source, format)}\n${displayText(target, format)}`,
+    }));
+    return serializeSubtitles(output, lines, format);
+}
+
+// ---- Review sheets
+
+function sheetRows(rows: DeliverableRow[], output: SubtitleDocument): (string | number)[][] {
+    return [
+        ['Sequence', 'Start', 'End', 'Source', 'Translation', 'Tier'],
+        ...rows.map(({ source, target, origin }) => [
+            source.sequence, target.startTime, target.endTime, displayText(source, output.format), displayText(target, output.format), origin ?? '',
+        ]),
+    ];
+}
+
+function toCsv(rows: (string | number)[][]): string {
+    const quote = (value: string) => /[",;\t\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    // Spreadsheets run text starting with these as a formula; the apostrophe makes it a literal (e.g. a "- dialogue" cue).
+    const neutralize = (cell: string | number) => typeof cell === 'string' && /^[=+\-@]/.test(cell) ? `'${cell}` : String(cell);
+    // The byte order mark makes Excel read the file as UTF-8 rather than in the system code page.
+    return '\uFEFF' + rows.map(row => row.map(cell => quote(neutralize(cell))).join(',')).join('\r\n') + '\r\n';
+}
+
+// The smallest workbook Excel, LibreOffice and Google Sheets open: one sheet of inline strings, no styles.
+function toXlsx(rows: (string | number)[][]): Buffer {
+    const cell = (value: string | number, ref: string) => typeof value === 'number'
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    const sheetData = rows.map((row, r) => `<row r="${r + 1}">${row.map((value, c) => cell(value, `${SHEET_COLUMNS[c]}${r + 1}`)).join('')}</row>`).join('');
+    const xml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+    return zip([
+        { name: '[Content_Types].xml', data: xml('<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+            + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            + '<Default Extension="xml" ContentType="application/xml"/>'
+            + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+            + '</Types>') },
+        { name: '_rels/.rels', data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+            + '</Relationships>') },
+        { name: 'xl/workbook.xml', data: xml('<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+            + '<sheets><sheet name="Review" sheetId="1" r:id="rId1"/></sheets></workbook>') },
+        { name: 'xl/_rels/workbook.xml.rels', data: xml('<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+            + '</Relationships>') },
+        { name: 'xl/worksheets/sheet1.xml', data: xml('<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+            + '<cols><col min="2" max="3" width="14" customWidth="1"/><col min="4" max="5" width="60" customWidth="1"/></cols>'
+            + `<sheetData>${sheetData}</sheetData></worksheet>`) },
+    ]);
+}
+
+// ---- XLIFF 2.0: one unit per cue, with markup as inline codes so CAT tools protect it.
+
+function toXliff(rows: DeliverableRow[], meta: DeliverableMeta): string {
+    const units = rows.map(({ source, target }) => `    <unit id="c${source.sequence}">
+      <notes><note category="timing">${escapeXml(`${target.startTime} --> ${target.endTime}`)}</note></notes>
+      <segment state="translated">
+        <source>${toInlineCodes(source)}</source>
+        <target>${toInlineCodes(target)}</target>
+      </segment>
+    </unit>`).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${meta.sourceLanguage}" trgLang="${meta.targetLanguage}">
+  <file id="job-${escapeXml(meta.jobId)}">
+${units}
+  </file>
+</xliff>
+`;
+}
+
+// Paired tags become <sc>/<ec> rather than <pc>, because a translation may close them out of order.
+function toInlineCodes(line: SrtLine): string {
+    if (!line.markup) return escapeXml(line.text);
+    const { tags } = line.markup;
+    return line.markup.source.split(PLACEHOLDER_SPLIT).map(part => {
+        const id = part.match(/^<\/?(t\d+|x\d+)\/?>$/)?.[1];
+        if (!id || !tags[id]) return escapeXml(part);
+        if (id.startsWith('x')) return `<ph id="${id}" disp="${escapeXml(tags[id].open)}"/>`;
+        return part.startsWith('</') ? `<ec startRef="${id}" disp="${escapeXml(tags[id].close ?? '')}"/>` : `<sc id="${id}" disp="${escapeXml(tags[id].open)}"/>`;
+    }).join('');
+}
+
+// The reverse of toInlineCodes(). Tools that rewrite the codes as <pc> are understood too; other markup keeps only its text.
+function fromInlineCodes(xml: string): string {
+    const openPairs: string[] = [];
+    const text = xml.replace(/<(\/?)([a-zA-Z]+)\b([^>]*?)(\/?)>/g, (_, closing: string, name: string, attrs: string) => {
+        const id = attribute(attrs, 'id') ?? '';
+        switch (name) {
+            case 'sc': return /^t\d+$/.test(id) ? `<${id}>` : '';
+            case 'ec': {
+                const ref = attribute(attrs, 'startRef') ?? id;
+                return /^t\d+$/.test(ref) ? `</${ref}>` : '';
+            }
+            case 'ph': return /^x\d+$/.test(id) ? `<${id}/>` : '';
+            case 'pc': {
+                if (!closing) openPairs.push(id);
+                const pair = closing ? openPairs.pop() ?? '' : id;
+                return /^t\d+$/.test(pair) ? `<${closing}${pair}>` : '';
+            }
+            case 'cp': {
+                const hex = attribute(attrs, 'hex');
+                return hex ? String.fromCodePoint(parseInt(hex, 16)) : '';
+            }
+            default: return '';
+        }
+    });
+    return unescapeXml(text);
+}
+
+// ---- Helpers
+
+function attribute(attrs: string, name: string): string | undefined {
+    const value = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+    return value ? unescapeXml(value[1] ?? value[2]) : undefined;
+}
+
+const languageCode = (tag: string) => tag.toLowerCase().split('-')[0];
+
+function escapeXml(value: string): string {
+    // Control characters other than tab and newlines are not allowed anywhere in XML 1.0.
+    return value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+// ---- ZIP container for XLSX: deflated entries, no ZIP64 (sheets stay far below 4 GB).
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = Array.from({ length: 256 }, (_, n) => {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            return c >>> 0;
+        });
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function zip(files: { name: string, data: string }[]): Buffer {
+    const DOS_DATE_1980_01_01 = (1 << 5) | 1;
+    const entries: Buffer[] = [];
+    const directory: Buffer[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = Buffer.from(file.name, 'utf8');
+        const data = Buffer.from(file.data, 'utf8');
+        const compressed = deflateRawSync(data);
+        const crc = crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(0, 10);
+        local.writeUInt16LE(DOS_DATE_1980_01_01, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(0, 12);
+        central.writeUInt16LE(DOS_DATE_1980_01_01, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        entries.push(local, name, compressed);
+        directory.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+    const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...entries, ...directory, end]);
+}
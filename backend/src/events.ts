@@ -0,0 +1,54 @@
+import { Queue, QueueEvents, QueueEventsProducer } from 'bullmq';
+import { EventEmitter } from 'events';
+import { TRANSLATION_QUEUE, redisConnection } from './connection';
+import { BlueprintSet, JobEvent, JobResult } from './types';
+import { listUsage, summarizeUsage } from './usage';
+
+const JOB_EVENT_NAME = 'job-event';
+
+// Local fan-out inside the API process. Fed by the bridge below, never by the worker directly.
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let producer: QueueEventsProducer | null = null;
+
+export async function publishJobEvent(jobId: string, event: JobEvent): Promise<void> {
+    if (!producer) producer = new QueueEventsProducer(TRANSLATION_QUEUE, { connection: redisConnection });
+    await producer.publishEvent({ eventName: JOB_EVENT_NAME, jobId, data: JSON.stringify(event) });
+}
+
+export function startJobEventBridge(): QueueEvents {
+    const queueEvents = new QueueEvents(TRANSLATION_QUEUE, { connection: redisConnection });
+    queueEvents.on<any>(JOB_EVENT_NAME, (args: { jobId: string, data: string }) => {
+        try {
+            jobEvents.emit(args.jobId, JSON.parse(args.data) as JobEvent);
+        } catch (e) { console.error(`Dropped malformed job event for job ${args.jobId}`); }
+    });
+    queueEvents.on('error', (err) => console.error('Job event bridge error:', err.message));
+    return queueEvents;
+}
+
+/**
+ * Rebuilds what a late subscriber missed from the job record in Redis:
+ * the usage so far, then the current stage while running, or the terminal
+ * event once finished.
+ */
+export async function getJobSnapshot(queue: Queue, jobId: string): Promise<JobEvent[]> {
+    const job = await queue.getJob(jobId);
+    if (!job) return [];
+
+    const entries = await listUsage(jobId);
+    const usage: JobEvent[] = entries.length > 0 ? [{ type: 'usage', payload: summarizeUsage(entries) }] : [];
+    const state = await job.getState();
+    if (state === 'completed') {
+        return [...usage, { type: 'completed', payload: job.returnvalue as JobResult }];
+    }
+    if (state === 'failed') {
+        return [...usage, { type: 'failed', payload: { error: job.failedReason } }];
+    }
+    if (state === 'delayed' && job.data.awaitingApproval) {
+        return [...usage, { type: 'awaiting_approval', payload: job.data.blueprints as BlueprintSet }];
+    }
+    const stage = (job.progress as { stage?: string } | undefined)?.stage;
+    return stage ? [...usage, { type: 'progress', payload: { stage } }] : usage;
+}
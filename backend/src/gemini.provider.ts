@@ -0,0 +1,75 @@
+import { GenerateContentResult, GoogleGenerativeAI, GoogleGenerativeAIFetchError, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { JsonRequest, LlmProvider, LlmProviderError, LlmRequest, TokenUsage, estimateTokens, parseJsonResponse } from './llm.provider';
+
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private readonly ai: GoogleGenerativeAI;
+
+    constructor(apiKey: string | undefined) {
+        if (!apiKey) throw new Error('GEMINI_API_KEY is required when LLM_PROVIDER is gemini.');
+        this.ai = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generateJson({ model, prompt, onUsage }: JsonRequest): Promise<any> {
+        const result = await withProviderErrors(() => this.ai.getGenerativeModel({ model, safetySettings }).generateContent({
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            generationConfig: { responseMimeType: 'application/json' }
+        }));
+        onUsage?.(usageOf(result, prompt));
+        return parseJsonResponse(result.response.text());
+    }
+
+    async generateText({ model, prompt, onUsage }: LlmRequest): Promise<string> {
+        const result = await withProviderErrors(() => this.ai.getGenerativeModel({ model, safetySettings }).generateContent(prompt));
+        onUsage?.(usageOf(result, prompt));
+        return result.response.text();
+    }
+
+    // The embedding API reports no token counts, so they are estimated from the text.
+    async embed(model: string, texts: string[], onUsage?: (usage: TokenUsage) => void): Promise<number[][]> {
+        const embeddingModel = this.ai.getGenerativeModel({ model });
+        const vectors: number[][] = [];
+        // batchEmbedContents accepts at most 100 requests per call.
+        for (let i = 0; i < texts.length; i += 100) {
+            const { embeddings } = await withProviderErrors(() => embeddingModel.batchEmbedContents({
+                requests: texts.slice(i, i + 100).map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+            }));
+            vectors.push(...embeddings.map(e => e.values));
+        }
+        onUsage?.({ inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 });
+        return vectors;
+    }
+}
+
+// Thinking models bill their reasoning as output, so it counts towards the output tokens.
+function usageOf(result: GenerateContentResult, prompt: string): TokenUsage {
+    const metadata: any = result.response.usageMetadata;
+    if (!metadata) return { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(result.response.text()) };
+    return { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0) };
+}
+
+async function withProviderErrors<T>(call: () => Promise<T>): Promise<T> {
+    try {
+        return await call();
+    } catch (error: any) {
+        if (error instanceof GoogleGenerativeAIFetchError) {
+            throw new LlmProviderError(error.message, error.status, retryDelayMs(error));
+        }
+        if (error instanceof TypeError) throw new LlmProviderError(error.message);
+        throw error;
+    }
+}
+
+// Gemini puts the server's back-off hint in a google.rpc.RetryInfo detail, e.g. { retryDelay: "31s" }.
+function retryDelayMs(error: GoogleGenerativeAIFetchError): number | undefined {
+    const info: any = error.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+    const seconds = parseFloat(info?.retryDelay ?? '');
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
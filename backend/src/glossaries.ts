@@ -0,0 +1,204 @@
+import mongoose from 'mongoose';
+import { GlossaryModel, GlossaryRevisionModel } from './db';
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from './languages';
+import { BlueprintSet, GlossaryEntry, GlossaryEntryInput, GlossaryRef, GlossarySuggestion, GlossarySummary, TeamGlossary, UserGlossaryItem } from './types';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface GlossaryInput {
+    name: string;
+    description?: string;
+    sourceLanguage: string;
+    targetLanguage: string;
+}
+
+/** Raised when an edit would clash with another glossary or another entry. */
+export class GlossaryConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GlossaryConflictError';
+    }
+}
+
+const termKey = (term: string) => term.normalize('NFC').trim().toLowerCase();
+const newEntryId = () => new mongoose.Types.ObjectId().toString();
+
+/** Returns an error message for an invalid create/update body, or null. */
+export function validateGlossaryInput(input: any, partial = false): string | null {
+    if (input === null || typeof input !== 'object') return 'Glossary details are required.';
+    if ((!partial || input.name !== undefined) && (typeof input.name !== 'string' || !input.name.trim())) return 'name must be a non-empty string.';
+    if (input.description !== undefined && typeof input.description !== 'string') return 'description must be a string.';
+    if (partial && (input.sourceLanguage !== undefined || input.targetLanguage !== undefined)) return 'The languages of a glossary cannot be changed.';
+    if (!partial) {
+        if (!isSupportedLanguage(input.sourceLanguage) || !isSupportedLanguage(input.targetLanguage)) {
+            return `sourceLanguage and targetLanguage must be one of: ${SUPPORTED_LANGUAGES.join(', ')}.`;
+        }
+        if (input.sourceLanguage === input.targetLanguage) return 'sourceLanguage and targetLanguage must differ.';
+    }
+    return null;
+}
+
+export async function listGlossaries(): Promise<GlossarySummary[]> {
+    const docs: any[] = await GlossaryModel.aggregate([
+        { $sort: { name: 1 } },
+        { $addFields: { entryCount: { $size: '$entries' } } },
+        { $project: { entries: 0 } },
+    ]);
+    return docs.map(doc => {
+        const { entries, ...summary } = toGlossary({ ...doc, entries: [] });
+        return { ...summary, entryCount: doc.entryCount };
+    });
+}
+
+/** Loads a glossary, or one of its earlier versions. Unknown ids and versions give null. */
+export async function getGlossary(id: string, version?: number): Promise<TeamGlossary | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const doc = await GlossaryModel.findById(id).lean();
+    if (!doc) return null;
+    if (version === undefined || version === doc.version) return toGlossary(doc);
+    const revision: any = await GlossaryRevisionModel.findOne({ glossaryId: id, version }).lean();
+    return revision ? toGlossary({ ...doc, version, entries: revision.entries, updatedAt: revision.createdAt }) : null;
+}
+
+export async function getGlossaries(ids: string[]): Promise<TeamGlossary[]> {
+    const found = await Promise.all(ids.map(id => getGlossary(id)));
+    return found.filter((glossary): glossary is TeamGlossary => !!glossary);
+}
+
+export async function createGlossary(input: GlossaryInput, entries: GlossaryEntryInput[] = []): Promise<TeamGlossary> {
+    const merged = mergeEntries([], entries);
+    try {
+        const doc = await GlossaryModel.create({
+            name: input.name.trim(),
+            description: input.description ?? '',
+            sourceLanguage: input.sourceLanguage,
+            targetLanguage: input.targetLanguage,
+            version: 1,
+            entries: merged,
+        });
+        await GlossaryRevisionModel.create({ glossaryId: doc.id, version: 1, entries: merged });
+        return toGlossary(doc.toObject());
+    } catch (error: any) {
+        if (error.code === 11000) throw new GlossaryConflictError(`A glossary named "${input.name.trim()}" already exists.`);
+        throw error;
+    }
+}
+
+/** Renames or re-describes a glossary. Only entry changes create a new version. */
+export async function updateGlossary(id: string, changes: Partial<Pick<GlossaryInput, 'name' | 'description'>>): Promise<TeamGlossary | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const update: Record<string, string> = {};
+    if (changes.name !== undefined) update.name = changes.name.trim();
+    if (changes.description !== undefined) update.description = changes.description;
+    try {
+        const doc = await GlossaryModel.findByIdAndUpdate(id, { $set: update }, { new: true }).lean();
+        return doc ? toGlossary(doc) : null;
+    } catch (error: any) {
+        if (error.code === 11000) throw new GlossaryConflictError(`A glossary named "${update.name}" already exists.`);
+        throw error;
+    }
+}
+
+export async function deleteGlossary(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const doc = await GlossaryModel.findByIdAndDelete(id);
+    if (!doc) return false;
+    await GlossaryRevisionModel.deleteMany({ glossaryId: id });
+    return true;
+}
+
+/**
+ * Adds entries to a glossary. An entry for a term that is already present
+ * replaces it (terms compare case-insensitively); 'replace' drops every entry
+ * that is not in the new list.
+ */
+export async function addEntries(id: string, entries: GlossaryEntryInput[], mode: ImportMode = 'merge'): Promise<TeamGlossary | null> {
+    return editEntries(id, current => mergeEntries(mode === 'replace' ? [] : current, entries));
+}
+
+export async function updateEntry(id: string, entryId: string, changes: Partial<GlossaryEntryInput>): Promise<TeamGlossary | null> {
+    return editEntries(id, current => {
+        const entry = current.find(candidate => candidate.id === entryId);
+        if (!entry) return null;
+        const updated = { ...entry, ...changes };
+        if (current.some(other => other.id !== entryId && termKey(other.term) === termKey(updated.term))) {
+            throw new GlossaryConflictError(`The glossary already has an entry for "${updated.term}".`);
+        }
+        return current.map(candidate => candidate.id === entryId ? updated : candidate);
+    });
+}
+
+export async function removeEntry(id: string, entryId: string): Promise<TeamGlossary | null> {
+    return editEntries(id, current => current.some(entry => entry.id === entryId) ? current.filter(entry => entry.id !== entryId) : null);
+}
+
+/** Flattens the glossaries a job references into the per-target items the worker reads. */
+export function glossaryItems(glossaries: TeamGlossary[]): UserGlossaryItem[] {
+    return glossaries.reduce<UserGlossaryItem[]>((items, glossary) => items.concat(
+        glossary.entries.map(entry => ({ term: entry.term, translation: entry.translation, language: glossary.targetLanguage }))
+    ), []);
+}
+
+export function glossaryRefs(glossaries: TeamGlossary[]): GlossaryRef[] {
+    return glossaries.map(({ id, name, version, targetLanguage }) => ({ id, name, version, targetLanguage }));
+}
+
+/**
+ * Blueprint terms the job's own glossary items did not cover, i.e. terms the
+ * model introduced. `targetLanguages[0]` receives untagged items, as in the worker.
+ */
+export function suggestTerms(blueprints: BlueprintSet, userGlossary: UserGlossaryItem[], targetLanguages: string[]): GlossarySuggestion[] {
+    return Object.entries(blueprints).reduce<GlossarySuggestion[]>((suggestions, [language, blueprint]) => {
+        const known = new Set(userGlossary
+            .filter(item => (item.language ?? targetLanguages[0]) === language)
+            .map(item => termKey(item.term)));
+        return suggestions.concat(blueprint.glossary
+            .filter(term => term.proposedTranslation && !known.has(termKey(term.term)))
+            .map(term => ({ language, term: term.term, translation: term.proposedTranslation, definition: term.definition })));
+    }, []);
+}
+
+function mergeEntries(current: GlossaryEntry[], incoming: GlossaryEntryInput[]): GlossaryEntry[] {
+    const byTerm = new Map(current.map(entry => [termKey(entry.term), entry]));
+    for (const entry of incoming) {
+        const existing = byTerm.get(termKey(entry.term));
+        byTerm.set(termKey(entry.term), { id: existing?.id ?? newEntryId(), term: entry.term, translation: entry.translation, ...(entry.note ? { note: entry.note } : {}) });
+    }
+    return [...byTerm.values()];
+}
+
+/**
+ * Applies an edit to the current entries and stores the result as the next
+ * version. The version check makes concurrent edits fail instead of one
+ * silently overwriting the other. `edit` returns null when its target entry does not exist.
+ */
+async function editEntries(id: string, edit: (current: GlossaryEntry[]) => GlossaryEntry[] | null): Promise<TeamGlossary | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const doc: any = await GlossaryModel.findById(id).lean();
+    if (!doc) return null;
+    const entries = edit(doc.entries);
+    if (!entries) return null;
+
+    const updated = await GlossaryModel.findOneAndUpdate(
+        { _id: id, version: doc.version },
+        { $set: { entries }, $inc: { version: 1 } },
+        { new: true }
+    ).lean();
+    if (!updated) throw new GlossaryConflictError('The glossary was changed by someone else; reload it and try again.');
+    await GlossaryRevisionModel.create({ glossaryId: id, version: updated.version, entries });
+    return toGlossary(updated);
+}
+
+function toGlossary(doc: any): TeamGlossary {
+    return {
+        id: String(doc._id),
+        name: doc.name,
+        description: doc.description ?? '',
+        sourceLanguage: doc.sourceLanguage,
+        targetLanguage: doc.targetLanguage,
+        version: doc.version,
+        entries: (doc.entries ?? []).map(({ id, term, translation, note }: GlossaryEntry) => ({ id, term, translation, ...(note ? { note } : {}) })),
+        createdAt: new Date(doc.createdAt).toISOString(),
+        updatedAt: new Date(doc.updatedAt).toISOString(),
+    };
+}
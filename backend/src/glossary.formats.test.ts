@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectGlossaryFormat, GlossaryFormatError, parseGlossaryFile, serializeGlossary } from './glossary.formats';
+
+const languages = { source: 'en', target: 'ar' };
+const meta = { name: 'Show & Tell', sourceLanguage: 'en', targetLanguage: 'ar' };
+
+describe('glossary format detection', () => {
+    it('trusts a known file extension', () => {
+        assert.equal(detectGlossaryFormat('[]', 'terms.CSV'), 'csv');
+        assert.equal(detectGlossaryFormat('term,translation', 'terms.tbx'), 'tbx');
+    });
+
+    it('falls back to the content', () => {
+        assert.equal(detectGlossaryFormat('\uFEFF  [{"term":"a"}]'), 'json');
+        assert.equal(detectGlossaryFormat('<?xml version="1.0"?><martif/>', 'terms.txt'), 'tbx');
+        assert.equal(detectGlossaryFormat('Captain,قائد'), 'csv');
+    });
+});
+
+describe('glossary CSV', () => {
+    it('reads a headed file with quoted cells and extra columns', () => {
+        const entries = parseGlossaryFile('\uFEFFnote,Term,Target\r\n"Rank, naval",Captain,قائد\r\n,Ship,"سفينة ""كبيرة"""\r\n', 'csv', languages);
+
+        assert.deepEqual(entries, [
+            { term: 'Captain', translation: 'قائد', note: 'Rank, naval' },
+            { term: 'Ship', translation: 'سفينة "كبيرة"' },
+        ]);
+    });
+
+    it('reads positional columns without a header, skipping blank rows', () => {
+        const entries = parseGlossaryFile('Captain;قائد;rank\n\nShip;سفينة', 'csv', languages);
+
+        assert.deepEqual(entries, [
+            { term: 'Captain', translation: 'قائد', note: 'rank' },
+            { term: 'Ship', translation: 'سفينة' },
+        ]);
+    });
+
+    it('keeps line breaks inside quoted cells', () => {
+        const entries = parseGlossaryFile('term\ttranslation\tnote\nCaptain\tقائد\t"first\nsecond"\n', 'csv', languages);
+
+        assert.equal(entries[0].note, 'first\nsecond');
+    });
+
+    it('rejects rows, headers and files it cannot read', () => {
+        assert.throws(() => parseGlossaryFile('term,note\nCaptain,rank', 'csv', languages), /"translation" column/);
+        assert.throws(() => parseGlossaryFile('term,translation\nCaptain,\nShip,سفينة', 'csv', languages), /CSV row 2/);
+        assert.throws(() => parseGlossaryFile('Captain,"قائد', 'csv', languages), /unterminated/);
+        assert.throws(() => parseGlossaryFile('term,translation\n', 'csv', languages), GlossaryFormatError);
+    });
+
+    it('round-trips through the export', () => {
+        const entries = [
+            { term: 'Captain', translation: 'قائد', note: 'Rank, "naval"' },
+            { term: 'Ship', translation: 'سفينة' },
+        ];
+        const csv = serializeGlossary(entries, 'csv', meta);
+
+        assert.equal(csv, 'term,translation,note\nCaptain,قائد,"Rank, ""naval"""\nShip,سفينة,\n');
+        assert.deepEqual(parseGlossaryFile(csv, 'csv', languages), entries);
+    });
+});
+
+describe('glossary TBX', () => {
+    it('reads TBX-Basic v2 entries by language, with notes and entities', () => {
+        const tbx = `<?xml version="1.0"?>
+<martif type="TBX-Basic"><text><body>
+  <termEntry id="1">
+    <descrip type="definition">Rank &amp; title</descrip>
+    <langSet xml:lang="ar-EG"><tig><term>قائد</term></tig></langSet>
+    <langSet xml:lang="en-US"><tig><term>Captain &lt;Cpt&gt;</term></tig></langSet>
+  </termEntry>
+  <termEntry id="2">
+    <langSet xml:lang="en"><tig><term>Ship</term></tig></langSet>
+  </termEntry>
+</body></text></martif>`;
+
+        assert.deepEqual(parseGlossaryFile(tbx, 'tbx', languages), [
+            { term: 'Captain <Cpt>', translation: 'قائد', note: 'Rank & title' },
+        ]);
+    });
+
+    it('reads TBX v3 entries and falls back to the first two languages', () => {
+        const tbx = `<tbx type="TBX-Basic"><text><body>
+  <conceptEntry id="c1">
+    <langSec xml:lang="de"><termSec><term>Kapitän</term></termSec></langSec>
+    <langSec xml:lang="fr"><termSec><term><![CDATA[Capitaine]]></term></termSec></langSec>
+  </conceptEntry>
+</body></text></tbx>`;
+
+        assert.deepEqual(parseGlossaryFile(tbx, 'tbx', languages), [{ term: 'Kapitän', translation: 'Capitaine' }]);
+    });
+
+    it('rejects documents that are not TBX', () => {
+        assert.throws(() => parseGlossaryFile('<glossary/>', 'tbx', languages), /not a TBX document/);
+        assert.throws(() => parseGlossaryFile('<martif></martif>', 'tbx', languages), /no entries/);
+    });
+
+    it('round-trips through the export', () => {
+        const entries = [
+            { term: 'Captain & crew', translation: 'القائد والطاقم', note: 'Use "<b>" sparingly' },
+            { term: 'Ship', translation: 'سفينة' },
+        ];
+        const tbx = serializeGlossary(entries, 'tbx', meta);
+
+        assert.match(tbx, /<sourceDesc><p>Show &amp; Tell<\/p><\/sourceDesc>/);
+        assert.match(tbx, /<langSet xml:lang="ar"><tig><term>سفينة<\/term><\/tig><\/langSet>/);
+        assert.deepEqual(parseGlossaryFile(tbx, 'tbx', languages), entries);
+    });
+});
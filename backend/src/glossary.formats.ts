@@ -0,0 +1,199 @@
+import { GlossaryEntryInput } from './types';
+
+export type GlossaryFileFormat = 'json' | 'csv' | 'tbx';
+
+// JSON files uploaded with a job may tag entries with a target language (see UserGlossaryItem).
+export type ParsedGlossaryEntry = GlossaryEntryInput & { language?: string };
+
+export const GLOSSARY_FORMATS: GlossaryFileFormat[] = ['json', 'csv', 'tbx'];
+
+const MIME_TYPES: Record<GlossaryFileFormat, string> = {
+    json: 'application/json',
+    csv: 'text/csv',
+    tbx: 'application/x-tbx+xml',
+};
+
+/** Thrown for unreadable glossary files; the message is safe to show to the uploader. */
+export class GlossaryFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GlossaryFormatError';
+    }
+}
+
+export function glossaryMimeType(format: GlossaryFileFormat): string {
+    return MIME_TYPES[format];
+}
+
+export function detectGlossaryFormat(content: string, fileName?: string): GlossaryFileFormat {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    if (extension && (GLOSSARY_FORMATS as string[]).includes(extension)) return extension as GlossaryFileFormat;
+    const head = content.replace(/^\uFEFF/, '').trimStart();
+    if (head.startsWith('[') || head.startsWith('{')) return 'json';
+    if (head.startsWith('<')) return 'tbx';
+    return 'csv';
+}
+
+/**
+ * Reads glossary entries from an uploaded file. For TBX the languages pick which
+ * term is the source and which the translation; files in other languages fall
+ * back to the first two languages of each entry.
+ */
+export function parseGlossaryFile(content: string, format: GlossaryFileFormat, languages: { source: string, target: string }): ParsedGlossaryEntry[] {
+    const text = content.replace(/^\uFEFF/, '');
+    const entries = format === 'json' ? parseJson(text) : format === 'csv' ? parseCsv(text) : parseTbx(text, languages);
+    if (entries.length === 0) throw new GlossaryFormatError('The glossary file contains no entries.');
+    return entries;
+}
+
+export function serializeGlossary(entries: GlossaryEntryInput[], format: GlossaryFileFormat, meta: { name: string, sourceLanguage: string, targetLanguage: string }): string {
+    switch (format) {
+        case 'json': return JSON.stringify(entries.map(({ term, translation, note }) => ({ term, translation, ...(note ? { note } : {}) })), null, 2);
+        case 'csv': return toCsv(entries);
+        case 'tbx': return toTbx(entries, meta);
+    }
+}
+
+/** Validates entries that arrive as JSON, from a file or a request body. */
+export function normalizeEntries(raw: unknown): ParsedGlossaryEntry[] {
+    const list = Array.isArray(raw) ? raw : (raw as { entries?: unknown })?.entries;
+    if (!Array.isArray(list)) throw new GlossaryFormatError('Expected a JSON array of { "term", "translation" } objects.');
+    return list.map((item, i) => {
+        const term = typeof item?.term === 'string' ? item.term.trim() : '';
+        const translation = typeof item?.translation === 'string' ? item.translation.trim() : '';
+        if (!term || !translation) throw new GlossaryFormatError(`Entry ${i + 1} needs a non-empty "term" and "translation".`);
+        const note = typeof item.note === 'string' && item.note.trim() ? item.note.trim() : undefined;
+        const language = typeof item.language === 'string' && item.language ? item.language : undefined;
+        return { term, translation, ...(note ? { note } : {}), ...(language ? { language } : {}) };
+    });
+}
+
+function parseJson(text: string): ParsedGlossaryEntry[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error: any) {
+        throw new GlossaryFormatError(`The glossary is not valid JSON: ${error.message}`);
+    }
+    return normalizeEntries(raw);
+}
+
+// ---- CSV (RFC 4180 quoting; a header row naming "term" and "translation" columns is optional)
+
+function parseCsv(text: string): GlossaryEntryInput[] {
+    const rows = splitCsv(text).filter(row => row.some(cell => cell.trim()));
+    if (rows.length === 0) return [];
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const hasHeader = header.includes('term');
+    const column = (name: string, fallback: number) => hasHeader ? header.indexOf(name) : fallback;
+    const termAt = column('term', 0);
+    const translationAt = hasHeader ? header.findIndex(cell => cell === 'translation' || cell === 'target') : 1;
+    const noteAt = column('note', 2);
+    if (translationAt === -1) throw new GlossaryFormatError('The CSV header needs a "translation" column.');
+
+    return rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+        const term = (row[termAt] ?? '').trim();
+        const translation = (row[translationAt] ?? '').trim();
+        if (!term || !translation) throw new GlossaryFormatError(`CSV row ${i + (hasHeader ? 2 : 1)} needs both a term and a translation.`);
+        const note = noteAt >= 0 ? (row[noteAt] ?? '').trim() : '';
+        return { term, translation, ...(note ? { note } : {}) };
+    });
+}
+
+// Spreadsheet exports use commas, semicolons or tabs depending on locale; the first line decides.
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const count = (delimiter: string) => firstLine.split(delimiter).length;
+    return [',', ';', '\t'].reduce((best, delimiter) => count(delimiter) > count(best) ? delimiter : best);
+}
+
+function splitCsv(text: string): string[][] {
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (quoted) throw new GlossaryFormatError('The CSV file has an unterminated quoted field.');
+    if (cell || row.length) rows.push([...row, cell]);
+    return rows;
+}
+
+function toCsv(entries: GlossaryEntryInput[]): string {
+    const quote = (value = '') => /[",;\t\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return ['term,translation,note', ...entries.map(entry => [entry.term, entry.translation, entry.note].map(quote).join(','))].join('\n') + '\n';
+}
+
+// ---- TBX (TBX-Basic v2 <termEntry>/<langSet>/<tig> and v3 <conceptEntry>/<langSec>/<termSec>)
+
+function parseTbx(text: string, languages: { source: string, target: string }): GlossaryEntryInput[] {
+    if (!/<(martif|tbx)\b/i.test(text)) throw new GlossaryFormatError('The file is not a TBX document.');
+    const entries: GlossaryEntryInput[] = [];
+    const entryPattern = /<(termEntry|conceptEntry)\b[^>]*>([\s\S]*?)<\/\1>/g;
+    let entry: RegExpExecArray | null;
+    while ((entry = entryPattern.exec(text)) !== null) {
+        const terms = new Map<string, string>();
+        const langPattern = /<(langSet|langSec)\b[^>]*xml:lang="([^"]+)"[^>]*>([\s\S]*?)<\/\1>/g;
+        let lang: RegExpExecArray | null;
+        while ((lang = langPattern.exec(entry[2])) !== null) {
+            const term = lang[3].match(/<term\b[^>]*>([\s\S]*?)<\/term>/)?.[1];
+            const code = lang[2].toLowerCase().split('-')[0];
+            if (term && !terms.has(code)) terms.set(code, unescapeXml(term.trim()));
+        }
+        const codes = [...terms.keys()];
+        const source = terms.get(languages.source) ?? terms.get(codes[0]);
+        const translation = terms.get(languages.target) ?? terms.get(codes.find(code => terms.get(code) !== source) ?? '');
+        const note = entry[2].match(/<(descrip|note)\b[^>]*>([\s\S]*?)<\/\1>/)?.[2];
+        if (source && translation) entries.push({ term: source, translation, ...(note ? { note: unescapeXml(note.trim()) } : {}) });
+    }
+    return entries;
+}
+
+function toTbx(entries: GlossaryEntryInput[], meta: { name: string, sourceLanguage: string, targetLanguage: string }): string {
+    const body = entries.map((entry, i) => `      <termEntry id="t${i + 1}">${entry.note ? `
+        <descrip type="definition">${escapeXml(entry.note)}</descrip>` : ''}
+        <langSet xml:lang="${meta.sourceLanguage}"><tig><term>${escapeXml(entry.term)}</term></tig></langSet>
+        <langSet xml:lang="${meta.targetLanguage}"><tig><term>${escapeXml(entry.translation)}</term></tig></langSet>
+      </termEntry>`).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="${meta.sourceLanguage}">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>${escapeXml(meta.name)}</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${body}
+    </body>
+  </text>
+</martif>
+`;
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
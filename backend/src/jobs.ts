@@ -0,0 +1,621 @@
+import { DelayedError, Job, JobState, Queue, UnrecoverableError, Worker } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { RetranslateOptions, TranslationWorkerService } from './translation.worker';
+import { BlueprintSet, CueAlternatives, GlossaryRef, JobEvent, JobResult, JobSummary, User, LineCorrection, LineCritique, ReviewCue, SrtLine, SubtitleDocument, TargetTranslation, SubtitleFormat, TranslationBlueprint, TranslationMode, UserGlossaryItem, ValidationReport, SubtitleConstraints, TranslationSettings, UsageEstimate, XliffMerge, LineOrigin } from './types';
+import { TRANSLATION_QUEUE, getRedis, redisConnection } from './connection';
+import { publishJobEvent } from './events';
+import { deleteCheckpoint, deleteScriptVectors, loadCheckpoint, loadScriptVectors, saveBlueprints, saveLine, saveScriptVectors } from './checkpoints';
+import { estimateTokens, getLlmProvider, getModelTiers } from './llm.provider';
+import { ScheduledLlmProvider, getScheduler } from './scheduler';
+import { parseSubtitles, serializeSubtitles } from './subtitle.formats';
+import { displayText, extractMarkup, restoreMarkup } from './markup';
+import { buildComplianceReport, measureCue, plainText, resolveConstraints, visibleLength } from './constraints';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGES, getLanguage } from './languages';
+import { getTranslationMemory, segmentsFromReview } from './translation.memory';
+import { alignReview, saveCorrections } from './corrections';
+import { saveCritiques } from './critiques';
+import { getProject, recordEpisode } from './projects';
+import { editedTerms } from './blueprints';
+import { canAccess } from './auth';
+import { buildQaReport, checkTranslation } from './qa';
+import { COST_APPROVAL_THRESHOLD, UsageMeter, expectedProShare, listUsage, saveUsage, summarizeUsage } from './usage';
+import { DeliverableFormat, DeliverableFormatError, buildDeliverable, parseXliff } from './deliverables';
+
+export const translationQueue = new Queue(TRANSLATION_QUEUE, { connection: redisConnection });
+
+interface TranslationJobData {
+    jobId: string;
+    // The user who submitted the job; only they and administrators can see it.
+    ownerId?: string;
+    subtitleContent: string;
+    inputFormat: SubtitleFormat;
+    outputFormat?: SubtitleFormat;
+    tone: string;
+    thinkingMode: boolean;
+    userGlossary: UserGlossaryItem[];
+    // Team glossaries whose entries were copied into userGlossary when the job was created.
+    glossaries?: GlossaryRef[];
+    translationMode?: TranslationMode;
+    sourceLanguage?: string;
+    targetLanguages?: string[];
+    blueprints?: BlueprintSet;
+    // Jobs from before multi-target jobs kept their one blueprint here; see jobBlueprints().
+    blueprint?: TranslationBlueprint;
+    validation?: ValidationReport;
+    constraints?: Partial<SubtitleConstraints>;
+    qaRetranslate?: boolean;
+    // Pause after Phase 1 until someone approves (and possibly edits) the blueprints.
+    approveBlueprint?: boolean;
+    awaitingApproval?: boolean;
+    approvalRequestedAt?: number;
+    blueprintApproved?: boolean;
+    // Terms whose translation the reviewer changed at approval; only these may revise the project's series glossary.
+    editedTerms?: Record<string, string[]>;
+    // The project this job is an episode of; its series blueprint is the base of the job's blueprint,
+    // and the job's blueprint is folded back into it once the job completes.
+    projectId?: string;
+    episode?: string;
+    // Targets whose output was changed after the job finished, by a review or accepted retranslations; these win over the return value.
+    revisions?: Record<string, TargetTranslation>;
+}
+
+const CANCELLED_REASON = 'Job was cancelled.';
+const APPROVAL_TIMEOUT_MS = parseFloat(process.env.BLUEPRINT_APPROVAL_TIMEOUT_HOURS || '72') * 60 * 60 * 1000;
+// Stage updates come per line, so usage is stored and streamed at most this often while a job runs.
+const USAGE_FLUSH_MS = 5000;
+const cancelKey = (jobId: string) => `${TRANSLATION_QUEUE}:cancel:${jobId}`;
+// Sorted set of one user's job ids, scored by creation time, so listing their jobs does not load everyone else's.
+const ownerJobsKey = (ownerId: string) => `${TRANSLATION_QUEUE}:owner:${ownerId}`;
+// Held while a revision is written, so two reviews or imports of one job do not overwrite each other's revisions.
+const revisionLockKey = (jobId: string) => `${TRANSLATION_QUEUE}:revision-lock:${jobId}`;
+const REVISION_LOCK_MS = 30000;
+const REVISION_LOCK_WAIT_MS = 10000;
+const REVISION_LOCK_RETRY_MS = 100;
+// Deletes the lock only if it still holds our token, so a lock that expired and was taken over is left alone.
+const RELEASE_LOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+export class JobCancelledError extends UnrecoverableError {
+    constructor() {
+        super(CANCELLED_REASON);
+        this.name = 'JobCancelledError';
+    }
+}
+
+export class RevisionConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RevisionConflictError';
+    }
+}
+
+export async function createTranslationJob(data: Omit<TranslationJobData, 'jobId'>) {
+    const job = await translationQueue.add('translate-subtitle', data as TranslationJobData, {
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 10000 }
+    });
+    await job.updateData({ ...job.data, jobId: job.id });
+    if (data.ownerId) await getRedis().zadd(ownerJobsKey(data.ownerId), job.timestamp, job.id!);
+    return job;
+}
+
+/** Loads a job on behalf of `user`. A job they may not see is reported as missing, so ids cannot be probed. */
+export async function getJob(jobId: string, user: User): Promise<Job<TranslationJobData> | undefined> {
+    const job: Job<TranslationJobData> | undefined = await translationQueue.getJob(jobId);
+    return job && canAccess(user, job.data.ownerId) ? job : undefined;
+}
+
+export async function listJobs(limit: number, user: User): Promise<JobSummary[]> {
+    const recent = user.role === 'admin'
+        ? (await translationQueue.getJobs(['active', 'waiting', 'delayed', 'completed', 'failed'], 0, limit - 1))
+            .filter((job): job is Job<TranslationJobData> => !!job)
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, limit)
+        : await ownJobs(user.id, limit);
+    return Promise.all(recent.map(async job => describeJob(job, await job.getState())));
+}
+
+// Newest first, from the owner's index; ids of jobs that no longer exist are dropped from it on the way.
+async function ownJobs(ownerId: string, limit: number): Promise<Job<TranslationJobData>[]> {
+    const key = ownerJobsKey(ownerId);
+    const jobs: Job<TranslationJobData>[] = [];
+    for (let offset = 0; jobs.length < limit; offset += limit) {
+        const ids = await getRedis().zrevrange(key, offset, offset + limit - 1);
+        if (ids.length === 0) break;
+        const loaded: (Job<TranslationJobData> | undefined)[] = await Promise.all(ids.map(id => translationQueue.getJob(id)));
+        const gone = ids.filter((_, i) => !loaded[i]);
+        if (gone.length > 0) {
+            await getRedis().zrem(key, ...gone);
+            offset -= gone.length;
+        }
+        jobs.push(...loaded.filter((job): job is Job<TranslationJobData> => !!job));
+    }
+    return jobs.slice(0, limit);
+}
+
+export function describeJob(job: Job<TranslationJobData>, state: JobState | 'unknown'): JobSummary {
+    const cancelled = state === 'failed' && job.failedReason === CANCELLED_REASON;
+    const awaitingApproval = state === 'delayed' && !!job.data.awaitingApproval;
+    return {
+        jobId: job.id!,
+        state: cancelled ? 'cancelled' : awaitingApproval ? 'awaiting_approval' : state,
+        stage: (job.progress as { stage?: string } | undefined)?.stage ?? null,
+        tone: job.data.tone,
+        sourceLanguage: job.data.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE,
+        targetLanguages: job.data.targetLanguages ?? DEFAULT_TARGET_LANGUAGES,
+        ownerId: job.data.ownerId ?? null,
+        projectId: job.data.projectId ?? null,
+        episode: job.data.episode ?? null,
+        error: cancelled ? null : job.failedReason ?? null,
+        attemptsMade: job.attemptsMade,
+        createdAt: new Date(job.timestamp).toISOString(),
+        startedAt: job.processedOn ? new Date(job.processedOn).toISOString() : null,
+        finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+    };
+}
+
+/** Picks one target language out of a completed job's result; defaults to the first target. */
+export function targetResult(job: Job<TranslationJobData>, language?: string): TargetTranslation | null {
+    const value: JobResult = job.returnvalue;
+    const translations = (value.translations ?? [{ language: DEFAULT_TARGET_LANGUAGES[0], result: value.result, compliance: value.compliance! }])
+        .map(translation => job.data.revisions?.[translation.language] ?? translation);
+    if (!language) return translations[0];
+    return translations.find(translation => translation.language === language) ?? null;
+}
+
+/** A job's blueprints by target language, reading a legacy single blueprint as the default target's. */
+export function jobBlueprints(job: Job<TranslationJobData>): BlueprintSet | null {
+    const { blueprints, blueprint } = job.data;
+    return blueprints ?? (blueprint ? { [DEFAULT_TARGET_LANGUAGES[0]]: blueprint } : null);
+}
+
+/**
+ * Queued jobs are removed outright, along with their checkpoint and script
+ * embeddings. Running jobs are flagged in Redis and the worker stops at the
+ * next line boundary. Returns false if the job already finished.
+ */
+export async function cancelJob(job: Job<TranslationJobData>): Promise<boolean> {
+    const state = await job.getState();
+    if (state === 'completed' || state === 'failed') return false;
+    if (state === 'active') {
+        await getRedis().set(cancelKey(job.id!), '1', 'EX', 24 * 60 * 60);
+        return true;
+    }
+    await job.remove();
+    await Promise.all([deleteCheckpoint(job.id!), deleteScriptVectors(job.id!)]);
+    return true;
+}
+
+/**
+ * Puts a failed or cancelled job back on the queue. The worker picks up its
+ * checkpoint and continues from the first untranslated line.
+ */
+export async function resumeJob(job: Job<TranslationJobData>): Promise<boolean> {
+    if (!(await job.isFailed())) return false;
+    // A job that timed out waiting for approval gets a fresh approval window.
+    if (job.data.awaitingApproval) await job.updateData({ ...job.data, awaitingApproval: false, approvalRequestedAt: undefined });
+    await job.retry('failed');
+    return true;
+}
+
+/**
+ * Replaces a paused job's blueprints with the approved ones and puts it back
+ * on the queue. The terms the reviewer edited are kept for the project's
+ * series glossary. Returns false if the job is not waiting for approval.
+ */
+export async function approveBlueprints(job: Job<TranslationJobData>, blueprints: BlueprintSet): Promise<boolean> {
+    if (!job.data.awaitingApproval || (await job.getState()) !== 'delayed') return false;
+    await saveBlueprints(job.id!, blueprints);
+    const edited = editedTerms(jobBlueprints(job) ?? {}, blueprints);
+    await job.updateData({ ...job.data, blueprints, editedTerms: edited, awaitingApproval: false, blueprintApproved: true });
+    await job.promote();
+    return true;
+}
+
+// Source cues paired by position with the cues of one target's output file.
+function reviewDocuments(job: Job<TranslationJobData>, language: string): { source: SubtitleDocument, machine: SubtitleDocument } {
+    const { subtitleContent, inputFormat, outputFormat = inputFormat } = job.data;
+    return {
+        source: parseSubtitles(subtitleContent, inputFormat).document,
+        machine: parseSubtitles(targetResult(job, language)!.result, outputFormat).document,
+    };
+}
+
+/** Rows for the review grid of one target language, keyed by source sequence. */
+export function reviewCues(job: Job<TranslationJobData>, language: string, critiques: LineCritique[] = []): ReviewCue[] {
+    const { inputFormat, outputFormat = inputFormat } = job.data;
+    const translation = targetResult(job, language)!;
+    const { source, machine } = reviewDocuments(job, language);
+    const compliance = new Map((translation.compliance?.cues ?? []).map(cue => [cue.sequence, cue]));
+    const qaIssues = translation.qa?.issues ?? [];
+    return source.lines.filter((_, i) => machine.lines[i]).map((line, i) => {
+        const output = machine.lines[i];
+        return {
+            sequence: line.sequence,
+            startTime: output.startTime,
+            endTime: output.endTime,
+            duration: output.duration,
+            sourceText: line.text,
+            text: displayText(output, outputFormat),
+            cps: compliance.get(line.sequence)?.cps ?? Math.round(visibleLength(output.text) / Math.max(output.duration, 0.001) * 10) / 10,
+            complianceIssues: compliance.get(line.sequence)?.issues ?? [],
+            qaIssues: qaIssues.filter(issue => issue.sequence === line.sequence),
+            ...critiqueOf(critiques, language, line.sequence),
+        };
+    });
+}
+
+function critiqueOf(critiques: LineCritique[], language: string, sequence: number): Pick<ReviewCue, 'critique'> {
+    const critique = critiques.find(candidate => candidate.language === language && candidate.sequence === sequence);
+    return critique ? { critique: { draft: critique.draft, issues: critique.issues } } : {};
+}
+
+/**
+ * Writes the output file again with edited cue texts (keyed by source
+ * sequence). Timings, numbering and styles come from the job's own output, so
+ * a review cannot damage them.
+ */
+export function rebuildTranslation(job: Job<TranslationJobData>, language: string, edits: Map<number, string>): string {
+    const { inputFormat, outputFormat = inputFormat } = job.data;
+    const { machine, lines } = editedLines(job, language, edits);
+    return serializeSubtitles(machine, lines, outputFormat);
+}
+
+function editedLines(job: Job<TranslationJobData>, language: string, edits: Map<number, string>) {
+    const { source, machine } = reviewDocuments(job, language);
+    const lines = machine.lines.map((line, i) => {
+        const edited = edits.get(source.lines[i]?.sequence);
+        if (edited === undefined) return { ...line, translatedText: line.markup?.source ?? line.text };
+        const { text, markup } = extractMarkup(edited.trim());
+        return { ...line, markup: markup ?? undefined, translatedText: markup?.source ?? text };
+    });
+    return { source, machine, lines };
+}
+
+/**
+ * Asks the model for new renderings of the given cues (source sequences).
+ * Unknown sequences are skipped. Nothing is stored until
+ * acceptRetranslations(); returns null if the job has no blueprint for the language.
+ */
+export async function proposeRetranslations(
+    job: Job<TranslationJobData>, language: string, sequences: number[], options: RetranslateOptions
+): Promise<CueAlternatives[] | null> {
+    const { tone, translationMode = 'batch', inputFormat, outputFormat = inputFormat, constraints, sourceLanguage = DEFAULT_SOURCE_LANGUAGE } = job.data;
+    const blueprints = jobBlueprints(job);
+    if (!blueprints?.[language]) return null;
+    const { source, machine } = reviewDocuments(job, language);
+    const outputs = new Map(source.lines.filter((_, i) => machine.lines[i]).map((line, i) => [line.sequence, machine.lines[i]]));
+    const requested = sequences.filter(sequence => outputs.has(sequence));
+    if (requested.length === 0) return [];
+
+    const settings = { tone, mode: translationMode, outputFormat, constraints: resolveConstraints(constraints), sourceLanguage, targetLanguage: language, qaRetranslate: false, thinkingMode: false };
+    const meter = new UsageMeter('retranslation');
+    const service = new TranslationWorkerService(new ScheduledLlmProvider(getLlmProvider(), getScheduler(), job.id!), undefined, undefined, undefined, meter);
+    const current = new Map(requested.map(sequence => [sequence, plainText(outputs.get(sequence)!.text)]));
+    try {
+        let scriptVectors = await loadScriptVectors(job.id!);
+        if (scriptVectors.length === 0) {
+            scriptVectors = await service.embedScript(job.id!, source.lines);
+            await saveScriptVectors(job.id!, scriptVectors);
+        }
+        const proposals = await service.retranslateCues(job.id!, source, requested, current, blueprints[language], settings, options, scriptVectors);
+        return proposals.map(({ sequence, tier, alternatives }) => {
+            const line = source.lines.find(candidate => candidate.sequence === sequence)!;
+            return {
+                sequence,
+                sourceText: line.text,
+                currentText: displayText(outputs.get(sequence)!, outputFormat),
+                tier,
+                alternatives: alternatives.map(text => restoreMarkup(text, line.markup, outputFormat)),
+            };
+        });
+    } finally {
+        await saveUsage(job.id!, meter.takePending());
+    }
+}
+
+/**
+ * Predicts what a job would use and cost before it is queued (see
+ * TranslationWorkerService.estimateUsage). Jobs above COST_APPROVAL_THRESHOLD_USD
+ * need the submitter's go-ahead.
+ */
+export async function estimateJob(
+    document: SubtitleDocument, targetLanguages: string[], settings: Pick<TranslationSettings, 'mode' | 'thinkingMode' | 'qaRetranslate'>
+): Promise<UsageEstimate> {
+    const tiers = getModelTiers();
+    const proShare = await expectedProShare(tiers);
+    const service = new TranslationWorkerService(getLlmProvider(), undefined, undefined, tiers);
+    const usage = summarizeUsage(service.estimateUsage(document.lines, targetLanguages, settings, proShare.share));
+    return {
+        cueCount: document.lines.length,
+        targetLanguages,
+        sourceTokens: estimateTokens(document.lines.map(line => line.text).join('\n')),
+        proShare: Math.round(proShare.share * 100) / 100,
+        proShareSource: proShare.source,
+        usage,
+        approvalThreshold: COST_APPROVAL_THRESHOLD,
+        requiresApproval: usage.total.cost > COST_APPROVAL_THRESHOLD,
+    };
+}
+
+/** Asks the model for a new rendering of one cue for the review grid; the caller decides whether to keep it. */
+export async function retranslateCue(job: Job<TranslationJobData>, language: string, sequence: number, instruction?: string): Promise<ReviewCue | null> {
+    const [proposal] = await proposeRetranslations(job, language, [sequence], { alternatives: 1, tier: 'pro', instruction }) ?? [];
+    if (!proposal) return null;
+    const row = reviewCues(job, language).find(cue => cue.sequence === sequence)!;
+    const text = proposal.alternatives[0] ?? proposal.currentText;
+    return { ...row, text, cps: Math.round(visibleLength(extractMarkup(text).text) / Math.max(row.duration, 0.001) * 10) / 10, complianceIssues: [], qaIssues: [] };
+}
+
+// Runs `work` while holding the job's revision lock, waiting up to REVISION_LOCK_WAIT_MS for it.
+async function withRevisionLock<T>(jobId: string, work: () => Promise<T>): Promise<T> {
+    const key = revisionLockKey(jobId);
+    const token = randomUUID();
+    const deadline = Date.now() + REVISION_LOCK_WAIT_MS;
+    while (await getRedis().set(key, token, 'PX', REVISION_LOCK_MS, 'NX') !== 'OK') {
+        if (Date.now() >= deadline) throw new RevisionConflictError(`Job ${jobId} is being revised by another request; try again.`);
+        await new Promise(resolve => setTimeout(resolve, REVISION_LOCK_RETRY_MS));
+    }
+    try {
+        return await work();
+    } finally {
+        await getRedis().eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+    }
+}
+
+/**
+ * Makes accepted retranslations part of the job's stored output for one
+ * target: the file is rebuilt around the original timings and its compliance
+ * and QA reports are taken again. Later downloads and reviews see the revision.
+ * Revisions are written under a per-job lock from a fresh copy of the job, so
+ * concurrent reviews and imports each build on the other's result.
+ */
+export async function acceptRetranslations(
+    job: Job<TranslationJobData>, language: string, choices: Map<number, string>, origins: Map<number, LineOrigin>
+): Promise<TargetTranslation> {
+    return withRevisionLock(job.id!, async () => {
+        const current: Job<TranslationJobData> | undefined = await translationQueue.getJob(job.id!);
+        if (!current) throw new Error(`Job ${job.id} no longer exists.`);
+        const revision = reviseTarget(current, language, choices, origins);
+        await current.updateData({ ...current.data, revisions: { ...current.data.revisions, [language]: revision } });
+        job.data = current.data;
+        return revision;
+    });
+}
+
+// The output of one target with `choices` applied over its current text, its reports taken again.
+function reviseTarget(
+    job: Job<TranslationJobData>, language: string, choices: Map<number, string>, origins: Map<number, LineOrigin>
+): TargetTranslation {
+    const { inputFormat, outputFormat = inputFormat, sourceLanguage = DEFAULT_SOURCE_LANGUAGE } = job.data;
+    const blueprints = jobBlueprints(job);
+    const previous = targetResult(job, language)!;
+    const constraints = resolveConstraints(job.data.constraints);
+    const { source, machine, lines } = editedLines(job, language, choices);
+    const translated = source.lines.filter((_, i) => lines[i]).map((line, i) => ({ ...line, translatedText: lines[i].translatedText }));
+    const condensed = new Set((previous.compliance?.cues ?? []).filter(cue => cue.condensed).map(cue => cue.sequence));
+    const compliance = buildComplianceReport(
+        translated.map(line => measureCue(line.sequence, line.translatedText, line.duration, condensed.has(line.sequence), constraints)),
+        constraints
+    );
+    const issues = checkTranslation(translated, blueprints?.[language]?.glossary ?? [], getLanguage(sourceLanguage), getLanguage(language));
+    const revision: TargetTranslation = {
+        language,
+        result: serializeSubtitles(machine, lines, outputFormat),
+        compliance,
+        qa: buildQaReport(language, translated, issues, previous.qa?.retranslated ?? []),
+        origins: Array.from(origins).reduce((all, [sequence, origin]) => ({ ...all, [sequence]: origin }), previous.origins ?? {}),
+    };
+    return revision;
+}
+
+/** Builds a deliverable (see deliverables.ts) for one target language from the job's current output, revisions included. */
+export async function exportTranslation(job: Job<TranslationJobData>, language: string, format: DeliverableFormat): Promise<string | Buffer> {
+    const { sourceLanguage = DEFAULT_SOURCE_LANGUAGE } = job.data;
+    const { source, machine } = reviewDocuments(job, language);
+    const origins = targetResult(job, language)!.origins ?? {};
+    const rows = source.lines.filter((_, i) => machine.lines[i]).map((line, i) => ({
+        source: line,
+        target: machine.lines[i],
+        origin: origins[line.sequence] ?? null,
+    }));
+    return buildDeliverable(rows, format, { jobId: job.id!, sourceLanguage, targetLanguage: language, output: machine });
+}
+
+/**
+ * Merges the targets of an XLIFF file exported with exportTranslation() back
+ * into the job; the file's trgLang picks the target. Changed cues go through
+ * acceptRetranslations(), unless `dryRun` asks only for the list of changes.
+ * Returns null if the job has no such target, and throws
+ * DeliverableFormatError for unreadable files and for files exported from
+ * another job or source language.
+ */
+export async function importXliff(job: Job<TranslationJobData>, content: string, dryRun: boolean): Promise<XliffMerge | null> {
+    const { inputFormat, outputFormat = inputFormat, sourceLanguage = DEFAULT_SOURCE_LANGUAGE } = job.data;
+    const { jobId, sourceLanguage: fileSourceLanguage, targetLanguage: language, units } = parseXliff(content);
+    // Units are only numbered by cue, so a file from another job would overwrite the wrong lines.
+    if (jobId !== job.id) throw new DeliverableFormatError(`The XLIFF file belongs to ${jobId ? `job ${jobId}` : 'no job of this service'}, not job ${job.id}.`);
+    if (fileSourceLanguage !== sourceLanguage) throw new DeliverableFormatError(`The XLIFF file is translated from ${fileSourceLanguage || 'an unnamed language'}, but this job's source is ${sourceLanguage}.`);
+    if (!targetResult(job, language)) return null;
+    const { source, machine } = reviewDocuments(job, language);
+    const outputs = new Map(source.lines.filter((_, i) => machine.lines[i]).map((line, i) => [line.sequence, machine.lines[i]]));
+
+    const changes: XliffMerge['changes'] = [];
+    const unknownSequences: number[] = [];
+    for (const { sequence, target } of units) {
+        const output = outputs.get(sequence);
+        if (!output) {
+            unknownSequences.push(sequence);
+            continue;
+        }
+        const from = displayText(output, outputFormat);
+        const to = restoreMarkup(target, output.markup, outputFormat);
+        if (to !== from) changes.push({ sequence, from, to });
+    }
+    const applied = !dryRun && changes.length > 0;
+    if (applied) {
+        await acceptRetranslations(job, language, new Map(changes.map(change => [change.sequence, change.to])), new Map(changes.map(change => [change.sequence, 'human'])));
+    }
+    return { language, changes, unchanged: units.length - changes.length - unknownSequences.length, unknownSequences, applied };
+}
+
+/**
+ * Records an accepted review of one target language: changed cues become line
+ * corrections and replace the model's text in the job's output (as a revision,
+ * see acceptRetranslations), and every aligned cue is stored in the translation
+ * memory as an approved (or corrected) segment. When the reviewer marked
+ * individual cues as approved, only those reach the memory. Only cue texts are
+ * taken from the edited file; timings stay those of the job's output. Nothing
+ * is stored if the edited file no longer parses; the validation report says why.
+ */
+export async function applyReview(
+    job: Job<TranslationJobData>, language: string, editedTranslation: string, approvedSequences?: number[]
+): Promise<{ report: ValidationReport, corrections: LineCorrection[], learnedSegments: number, translation: TargetTranslation }> {
+    const { inputFormat, outputFormat = inputFormat, sourceLanguage = DEFAULT_SOURCE_LANGUAGE } = job.data;
+    const edited = parseSubtitles(editedTranslation, outputFormat);
+    if (!edited.report.valid) return { report: edited.report, corrections: [], learnedSegments: 0, translation: targetResult(job, language)! };
+
+    const { source, machine } = reviewDocuments(job, language);
+    const cues = alignReview(source, machine, edited.document);
+    const corrections = await saveCorrections(job.id!, language, cues);
+    const approved = approvedSequences ? new Set(approvedSequences) : null;
+    const segments = segmentsFromReview(approved ? cues.filter(cue => approved.has(cue.sequence)) : cues, { sourceLanguage, targetLanguage: language, jobId: job.id! });
+    await getTranslationMemory().store(segments);
+
+    // alignReview() matched edited cues by output sequence; position maps them back to the source.
+    const changed = new Set(cues.filter(cue => cue.changed).map(cue => cue.sequence));
+    const editedBySequence = new Map(edited.document.lines.map(line => [line.sequence, line]));
+    const choices = new Map<number, string>();
+    machine.lines.forEach((line, i) => {
+        const sequence = source.lines[i]?.sequence;
+        const editedLine = editedBySequence.get(line.sequence);
+        if (changed.has(sequence) && editedLine) choices.set(sequence, displayText(editedLine, outputFormat));
+    });
+    const translation = choices.size > 0
+        ? await acceptRetranslations(job, language, choices, new Map(Array.from(choices.keys()).map(sequence => [sequence, 'human'])))
+        : targetResult(job, language)!;
+    return { report: edited.report, corrections, learnedSegments: segments.length, translation };
+}
+
+/**
+ * Parks the job in the delayed set until approveBlueprints() promotes it. If
+ * nobody approves within BLUEPRINT_APPROVAL_TIMEOUT_HOURS the delay runs out,
+ * the job comes back here and fails for good.
+ */
+async function pauseForApproval(job: Job<TranslationJobData>, blueprints: BlueprintSet, token: string | undefined, updateStage: (stage: string) => void): Promise<void> {
+    const requestedAt = job.data.approvalRequestedAt ?? Date.now();
+    if (Date.now() - requestedAt >= APPROVAL_TIMEOUT_MS) {
+        throw new UnrecoverableError('The blueprint was not approved in time.');
+    }
+    await job.updateData({ ...job.data, blueprints, awaitingApproval: true, approvalRequestedAt: requestedAt });
+    updateStage('Waiting for blueprint approval...');
+    await job.moveToDelayed(requestedAt + APPROVAL_TIMEOUT_MS, token);
+}
+
+async function throwIfCancelled(jobId: string): Promise<void> {
+    if (await getRedis().exists(cancelKey(jobId))) throw new JobCancelledError();
+}
+
+export function startWorker() {
+    console.log("Enterprise worker process started...");
+    const worker = new Worker(TRANSLATION_QUEUE, async (job: Job<TranslationJobData>, token?: string) => {
+        const jobId = job.id!;
+        const { subtitleContent, inputFormat, outputFormat = inputFormat, tone, thinkingMode = false, userGlossary, translationMode = 'batch', constraints, qaRetranslate = false } = job.data;
+        const { sourceLanguage = DEFAULT_SOURCE_LANGUAGE, targetLanguages = DEFAULT_TARGET_LANGUAGES, projectId } = job.data;
+        const meter = new UsageMeter();
+        const service = new TranslationWorkerService(new ScheduledLlmProvider(getLlmProvider(), getScheduler(), jobId), undefined, undefined, undefined, meter);
+
+        const emit = (event: JobEvent) => {
+            publishJobEvent(jobId, event).catch(err => console.error(`Failed to publish ${event.type} for job ${jobId}:`, err.message));
+        };
+        let usageFlushedAt = Date.now();
+        const flushUsage = async () => {
+            usageFlushedAt = Date.now();
+            const pending = meter.takePending();
+            if (pending.length === 0) return;
+            try {
+                await saveUsage(jobId, pending);
+            } catch (err: any) {
+                console.error(`Failed to store token usage for job ${jobId}:`, err.message);
+            }
+            emit({ type: 'usage', payload: summarizeUsage(meter.entries()) });
+        };
+        const updateStage = (stage: string) => {
+            job.updateProgress({ stage });
+            emit({ type: 'progress', payload: { stage } });
+            if (Date.now() - usageFlushedAt >= USAGE_FLUSH_MS) flushUsage();
+        };
+        
+        try {
+            // Earlier attempts' usage is already stored; counting it keeps the streamed totals those of the whole job.
+            meter.restore(await listUsage(jobId));
+            const { document } = parseSubtitles(subtitleContent, inputFormat);
+            const checkpoint = await loadCheckpoint(jobId);
+            let blueprints = checkpoint.blueprints;
+            if (blueprints) {
+                updateStage('Reusing blueprint from previous attempt...');
+            } else {
+                updateStage('Generating blueprint...');
+                // A project deleted since the job was created just means there is no series to build on.
+                const project = projectId ? await getProject(projectId) : null;
+                blueprints = await service.generateBlueprints(document.lines, tone, userGlossary, sourceLanguage, targetLanguages, updateStage, project?.blueprint);
+                await saveBlueprints(jobId, blueprints);
+            }
+            await job.updateData({ ...job.data, blueprints });
+            emit({ type: 'blueprint_ready', payload: blueprints });
+
+            if (job.data.approveBlueprint && !job.data.blueprintApproved) {
+                await pauseForApproval(job, blueprints, token, updateStage);
+                emit({ type: 'awaiting_approval', payload: blueprints });
+                throw new DelayedError();
+            }
+            
+            const checkCancelled = () => throwIfCancelled(jobId);
+            await checkCancelled();
+
+            updateStage('Executing translation...');
+            const settings = { tone, mode: translationMode, outputFormat, constraints: resolveConstraints(constraints), sourceLanguage, qaRetranslate, thinkingMode };
+            const translated = await service.executeTranslation(jobId, document, blueprints, settings, {
+                updateStage,
+                checkCancelled,
+                completedLines: checkpoint.lines,
+                onLineTranslated: (language, sequence, translatedText, origin) => saveLine(jobId, language, sequence, translatedText, origin),
+                onScriptIndexed: records => saveScriptVectors(jobId, records),
+                onQaReport: report => emit({ type: 'qa_report', payload: report }),
+                // Stored the way reviewers see cues, with the output format's tags instead of placeholders.
+                onCritiques: critiques => saveCritiques(critiques.map(critique => {
+                    const markup = document.lines.find(line => line.sequence === critique.sequence)?.markup;
+                    return { ...critique, draft: restoreMarkup(critique.draft, markup, outputFormat), refined: restoreMarkup(critique.refined, markup, outputFormat) };
+                })),
+            });
+
+            // Origins move into the result with the text, so they outlive the checkpoint.
+            const { origins } = await loadCheckpoint(jobId);
+            const translations = translated.map(translation => ({
+                ...translation,
+                origins: Array.from(origins.get(translation.language) ?? []).reduce((all, [sequence, origin]) => ({ ...all, [sequence]: origin }), {}),
+            }));
+            const [primary] = translations;
+            const result: JobResult = { result: primary.result, format: outputFormat, language: primary.language, compliance: primary.compliance, translations };
+            await flushUsage();
+            emit({ type: 'completed', payload: result });
+            return result;
+        } catch (error: any) {
+            await flushUsage();
+            if (error instanceof DelayedError) throw error;
+            emit({ type: 'failed', payload: { error: error.message } });
+            throw error;
+        } finally {
+            await getRedis().del(cancelKey(jobId));
+        }
+    }, { connection: redisConnection, concurrency: parseInt(process.env.WORKER_CONCURRENCY || '2', 10) });
+
+    // Runs once the result is stored: the checkpoint is no longer needed, and a project that cannot take the episode must not
+    // fail a finished job.
+    worker.on('completed', (job: Job<TranslationJobData>) => {
+        deleteCheckpoint(job.id!).catch(err => console.error(`Failed to delete the checkpoint of job ${job.id}:`, err.message));
+        const { projectId, episode, blueprints } = job.data;
+        if (!projectId || !blueprints) return;
+        recordEpisode(projectId, job.id!, episode, blueprints, job.data.editedTerms)
+            .catch(err => console.error(`Failed to record job ${job.id} as an episode of project ${projectId}:`, err.message));
+    });
+}
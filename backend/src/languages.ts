@@ -0,0 +1,86 @@
+export type ScriptDirection = 'ltr' | 'rtl';
+export type Script = 'latin' | 'arabic';
+
+export interface LanguageProfile {
+    code: string;
+    name: string;
+    nativeName: string;
+    direction: ScriptDirection;
+    script: Script;
+    // Extra guidance appended to every translation prompt for this target language.
+    styleNotes: string;
+    // Words a subtitle line should not end on (they lead into what follows)...
+    breakBefore: string[];
+    // ...and words it should not start with (they close the phrase before them).
+    breakAfter: string[];
+}
+
+const LANGUAGES: Record<string, LanguageProfile> = {
+    en: {
+        code: 'en', name: 'English', nativeName: 'English', direction: 'ltr', script: 'latin',
+        styleNotes: 'Use natural, idiomatic English with contractions where speech calls for them.',
+        breakBefore: ['and', 'or', 'but', 'the', 'a', 'an', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'if', 'that'],
+        breakAfter: [],
+    },
+    fa: {
+        code: 'fa', name: 'Persian', nativeName: 'فارسی', direction: 'rtl', script: 'arabic',
+        styleNotes: 'Write in Persian script with a zero-width non-joiner (ZWNJ) where the orthography needs one (e.g. می‌کنم, کتاب‌ها). Match register to the tone: colloquial spoken forms (e.g. میرم, چطوره) for casual or slang dialogue, standard written forms otherwise. Use Persian punctuation (، ؛ ؟) and «» for quotes.',
+        breakBefore: ['و', 'که', 'از', 'به', 'در', 'با', 'تا', 'برای', 'اگر', 'اما', 'ولی', 'یا', 'چون', 'این', 'آن'],
+        breakAfter: ['را', 'هم', 'است', 'شد'],
+    },
+    ar: {
+        code: 'ar', name: 'Arabic', nativeName: 'العربية', direction: 'rtl', script: 'arabic',
+        styleNotes: 'Use Modern Standard Arabic unless the tone is casual or slang, in which case light, widely understood colloquial phrasing is acceptable. Do not add tashkeel (diacritics) except to avoid real ambiguity. Use Arabic punctuation (، ؛ ؟).',
+        breakBefore: ['و', 'في', 'من', 'إلى', 'على', 'عن', 'مع', 'أن', 'إن', 'لكن', 'أو', 'الذي', 'التي', 'لا'],
+        breakAfter: [],
+    },
+    tr: {
+        code: 'tr', name: 'Turkish', nativeName: 'Türkçe', direction: 'ltr', script: 'latin',
+        styleNotes: 'Use natural Turkish word order (verb-final) and keep suffixes attached to the words they belong to. Choose sen/siz according to the relationship between speakers and keep that choice consistent per character pair.',
+        breakBefore: ['ve', 'ama', 'fakat', 'ya', 'veya', 'ki', 'bu', 'şu', 'o', 'bir', 'çünkü', 'eğer'],
+        breakAfter: ['için', 'gibi', 'kadar', 'ile', 'de', 'da', 'mi', 'mı', 'mu', 'mü'],
+    },
+    ur: {
+        code: 'ur', name: 'Urdu', nativeName: 'اردو', direction: 'rtl', script: 'arabic',
+        styleNotes: 'Write in Urdu (Nastaliq) script, not Hindi/Devanagari. Use آپ/تم/تو according to the relationship between speakers and keep it consistent. Use Urdu punctuation (۔ ، ؟).',
+        breakBefore: ['اور', 'کہ', 'لیکن', 'مگر', 'یا', 'اگر', 'یہ', 'وہ'],
+        breakAfter: ['کو', 'سے', 'نے', 'میں', 'پر', 'کا', 'کی', 'کے', 'ہے', 'ہیں', 'تھا', 'تھی'],
+    },
+    es: {
+        code: 'es', name: 'Spanish', nativeName: 'Español', direction: 'ltr', script: 'latin',
+        styleNotes: 'Use neutral Spanish understood across regions and opening ¿ ¡ marks.',
+        breakBefore: ['y', 'o', 'pero', 'que', 'de', 'el', 'la', 'los', 'las', 'un', 'una', 'en', 'con', 'por', 'para', 'si'],
+        breakAfter: [],
+    },
+    fr: {
+        code: 'fr', name: 'French', nativeName: 'Français', direction: 'ltr', script: 'latin',
+        styleNotes: 'Use French typographic spacing before ? ! : ; and keep tu/vous choices consistent per character pair.',
+        breakBefore: ['et', 'ou', 'mais', 'que', 'de', 'le', 'la', 'les', 'un', 'une', 'en', 'avec', 'pour', 'si'],
+        breakAfter: [],
+    },
+    de: {
+        code: 'de', name: 'German', nativeName: 'Deutsch', direction: 'ltr', script: 'latin',
+        styleNotes: 'Keep du/Sie choices consistent per character pair.',
+        breakBefore: ['und', 'oder', 'aber', 'dass', 'der', 'die', 'das', 'ein', 'eine', 'mit', 'für', 'wenn'],
+        breakAfter: [],
+    },
+};
+
+export const DEFAULT_SOURCE_LANGUAGE = 'en';
+export const DEFAULT_TARGET_LANGUAGES = ['fa'];
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES);
+
+export function isSupportedLanguage(code: unknown): code is string {
+    return typeof code === 'string' && code in LANGUAGES;
+}
+
+export function getLanguage(code: string): LanguageProfile {
+    const language = LANGUAGES[code];
+    if (!language) throw new Error(`Unsupported language "${code}".`);
+    return language;
+}
+
+export function listLanguages(): Pick<LanguageProfile, 'code' | 'name' | 'nativeName' | 'direction'>[] {
+    return Object.values(LANGUAGES).map(({ code, name, nativeName, direction }) => ({ code, name, nativeName, direction }));
+}
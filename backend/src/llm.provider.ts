@@ -0,0 +1,97 @@
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { MockProvider } from './mock.provider';
+
+/** Identifies which pipeline step a JSON request belongs to, so offline providers can answer in the right shape. */
+export type JsonTask = 'keywords' | 'scene_notes' | 'grounding' | 'analysis' | 'glossary' | 'triage' | 'batch_translation' | 'alternatives' | 'critique' | 'refinement';
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LlmRequest {
+    model: string;
+    prompt: string;
+    // Called once the model has answered, with the token counts the provider reported (estimated when it reports none).
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface JsonRequest extends LlmRequest {
+    task: JsonTask;
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    generateJson(request: JsonRequest): Promise<any>;
+    generateText(request: LlmRequest): Promise<string>;
+    embed(model: string, texts: string[], onUsage?: (usage: TokenUsage) => void): Promise<number[][]>;
+}
+
+/** Rough token count for providers that do not report usage, and for budgeting before a call. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Transport-level failure from a provider. `status` and `retryAfterMs` drive the scheduler's retry policy. */
+export class LlmProviderError extends Error {
+    constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'LlmProviderError';
+    }
+}
+
+/** The model answered, but not with parseable JSON. `raw` is its answer, for the repair prompt. */
+export class LlmResponseFormatError extends Error {
+    constructor(message: string, public readonly raw: string) {
+        super(message);
+        this.name = 'LlmResponseFormatError';
+    }
+}
+
+/** Parses a JSON-mode answer, tolerating the Markdown code fence some models wrap it in. */
+export function parseJsonResponse(text: string): any {
+    const body = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+    try {
+        return JSON.parse(body);
+    } catch (error: any) {
+        throw new LlmResponseFormatError(error.message, text);
+    }
+}
+
+export interface ModelTiers {
+    flash: string;
+    pro: string;
+    embedding: string;
+}
+
+const DEFAULT_TIERS: Record<string, ModelTiers> = {
+    gemini: { flash: 'gemini-2.5-flash', pro: 'gemini-2.5-pro', embedding: 'text-embedding-004' },
+    openai: { flash: 'llama3.1', pro: 'llama3.1', embedding: 'nomic-embed-text' },
+    mock: { flash: 'mock-flash', pro: 'mock-pro', embedding: 'mock-embedding' },
+};
+
+const providerName = () => (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+export function getModelTiers(): ModelTiers {
+    const defaults = DEFAULT_TIERS[providerName()] ?? DEFAULT_TIERS.gemini;
+    return {
+        flash: process.env.LLM_FLASH_MODEL || defaults.flash,
+        pro: process.env.LLM_PRO_MODEL || defaults.pro,
+        embedding: process.env.LLM_EMBEDDING_MODEL || defaults.embedding,
+    };
+}
+
+let sharedProvider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+    if (!sharedProvider) sharedProvider = createLlmProvider();
+    return sharedProvider;
+}
+
+export function createLlmProvider(): LlmProvider {
+    switch (providerName()) {
+        case 'gemini': return new GeminiProvider(process.env.GEMINI_API_KEY);
+        case 'openai': return new OpenAICompatibleProvider(process.env.LLM_BASE_URL || 'http://localhost:8080/v1', process.env.LLM_API_KEY);
+        case 'mock': return new MockProvider();
+        default: throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}". Expected gemini, openai or mock.`);
+    }
+}
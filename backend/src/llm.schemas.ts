@@ -0,0 +1,75 @@
+import { JsonTask } from './llm.provider';
+import { TRANSLATION_TYPES } from './blueprints';
+
+/** The subset of JSON Schema the pipeline needs; printed as-is into repair prompts. */
+export type JsonSchema =
+    | { type: 'string' | 'number' | 'boolean' }
+    | { type: 'string', enum: string[] }
+    | { type: 'array', items: JsonSchema }
+    | { type: 'object', properties: Record<string, JsonSchema>, required: string[] };
+
+const string: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+const strings: JsonSchema = { type: 'array', items: string };
+const object = (properties: Record<string, JsonSchema>, required = Object.keys(properties)): JsonSchema => ({ type: 'object', properties, required });
+const list = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+
+const characterProfile = object({ personaName: string, speakingStyle: string, voiceConsistencyRule: string });
+const sequencedTranslations = object({ translations: list(object({ sequence: number, translation: string })) });
+
+export const TASK_SCHEMAS: Record<JsonTask, JsonSchema> = {
+    keywords: object({ keywords: list(object({ term: string, definition: string })) }),
+    scene_notes: object({
+        summary: string,
+        keyPoints: strings,
+        characters: list(characterProfile),
+        culturalNuances: strings,
+    }),
+    grounding: object({ grounded_keywords: list(object({ term: string, translations: strings })) }),
+    analysis: object({ summary: string, keyPoints: strings, characterProfiles: list(characterProfile), culturalNuances: strings }),
+    glossary: object({
+        glossary: list(object({
+            term: string, definition: string, proposedTranslation: string,
+            translationType: { type: 'string', enum: TRANSLATION_TYPES }, justification: string, alternatives: strings,
+        })),
+    }),
+    triage: object({ classifications: list(object({ id: number, model: { type: 'string', enum: ['flash', 'pro'] } })) }),
+    batch_translation: sequencedTranslations,
+    alternatives: object({ alternatives: strings }),
+    critique: object({ critiques: list(object({ sequence: number, issues: strings })) }),
+    refinement: sequencedTranslations,
+};
+
+/** Returns a message naming the first place `value` departs from `schema`, or null. */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string | null {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return `${path} must be a string.`;
+            if ('enum' in schema && !schema.enum.includes(value)) return `${path} must be one of: ${schema.enum.join(', ')}.`;
+            return null;
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a number.`;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `${path} must be true or false.`;
+        case 'array': {
+            if (!Array.isArray(value)) return `${path} must be an array.`;
+            for (let i = 0; i < value.length; i++) {
+                const problem = validateJson(value[i], schema.items, `${path}[${i}]`);
+                if (problem) return problem;
+            }
+            return null;
+        }
+        case 'object': {
+            if (value === null || typeof value !== 'object' || Array.isArray(value)) return `${path} must be an object.`;
+            const record = value as Record<string, unknown>;
+            const missing = schema.required.find(key => record[key] === undefined);
+            if (missing) return `${path}.${missing} is missing.`;
+            for (const [key, property] of Object.entries(schema.properties)) {
+                if (record[key] === undefined) continue;
+                const problem = validateJson(record[key], property, `${path}.${key}`);
+                if (problem) return problem;
+            }
+            return null;
+        }
+    }
+}
@@ -0,0 +1,155 @@
+import { LineMarkup, SrtLine, SubtitleFormat } from './types';
+
+// HTML-style tags (SRT/VTT) and ASS override blocks, including the {\an8} position overrides players accept in SRT.
+const TAG_PATTERN = /<\/?[a-zA-Z][^>]*>|\{\\[^}]*\}/g;
+export const PLACEHOLDER_PATTERN = /<\/?t\d+>|<x\d+\/>/g;
+
+export interface PlaceholderCheck {
+    ok: boolean;
+    missing: string[];
+    duplicated: string[];
+    unexpected: string[];
+}
+
+/**
+ * Replaces inline markup with numbered placeholders the model can move around:
+ * matched open/close pairs become `<tN>…</tN>` so they can wrap the translated
+ * words, everything else (ASS overrides, unmatched tags) becomes `<xN/>`.
+ * `markup` is null when the text carries no markup at all.
+ */
+export function extractMarkup(raw: string): { text: string, markup: LineMarkup | null } {
+    const tokens = findTags(raw);
+    if (tokens.length === 0) return { text: raw, markup: null };
+
+    const placeholders = new Map<number, string>();
+    const tags: LineMarkup['tags'] = {};
+    const open: { name: string, index: number }[] = [];
+    let counter = 0;
+
+    tokens.forEach((token, index) => {
+        const tag = token.tag;
+        const name = tag.match(/^<\/?([a-zA-Z]+)/)?.[1]?.toLowerCase();
+        if (name && !tag.startsWith('</')) {
+            open.push({ name, index });
+            return;
+        }
+        const openIndex = name ? open.map(o => o.name).lastIndexOf(name) : -1;
+        if (name && openIndex !== -1) {
+            const [opener] = open.splice(openIndex, 1);
+            const id = `t${++counter}`;
+            tags[id] = { open: tokens[opener.index].tag, close: tag };
+            placeholders.set(opener.index, `<${id}>`);
+            placeholders.set(index, `</${id}>`);
+        } else {
+            const id = `x${++counter}`;
+            tags[id] = { open: tag };
+            placeholders.set(index, `<${id}/>`);
+        }
+    });
+    // Openers that never closed (e.g. a VTT <v Speaker> running to the end of the cue) stand alone.
+    for (const { index } of open) {
+        const id = `x${++counter}`;
+        tags[id] = { open: tokens[index].tag };
+        placeholders.set(index, `<${id}/>`);
+    }
+
+    let cursor = 0;
+    let source = '';
+    tokens.forEach((token, index) => {
+        source += raw.slice(cursor, token.index) + placeholders.get(index);
+        cursor = token.index + token.tag.length;
+    });
+    source += raw.slice(cursor);
+
+    return { text: raw.replace(TAG_PATTERN, ''), markup: { source: source.trim(), tags } };
+}
+
+function findTags(raw: string): { tag: string, index: number }[] {
+    const pattern = new RegExp(TAG_PATTERN.source, 'g');
+    const found: { tag: string, index: number }[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(raw)) !== null) found.push({ tag: match[0], index: match.index });
+    return found;
+}
+
+export function expectedPlaceholders(markup: LineMarkup): string[] {
+    return Object.keys(markup.tags).reduce<string[]>((all, id) =>
+        all.concat(markup.tags[id].close ? [`<${id}>`, `</${id}>`] : [`<${id}/>`]), []);
+}
+
+export function checkPlaceholders(translated: string, markup: LineMarkup | undefined): PlaceholderCheck {
+    const found = translated.match(PLACEHOLDER_PATTERN) ?? [];
+    if (!markup) return { ok: found.length === 0, missing: [], duplicated: [], unexpected: found };
+    const expected = expectedPlaceholders(markup);
+    const count = (p: string) => found.filter(f => f === p).length;
+    const missing = expected.filter(p => count(p) === 0);
+    const duplicated = expected.filter(p => count(p) > 1);
+    const unexpected = found.filter(p => !expected.includes(p));
+    const misordered = Object.keys(markup.tags).some(id => translated.indexOf(`</${id}>`) !== -1 && translated.indexOf(`</${id}>`) < translated.indexOf(`<${id}>`));
+    return { ok: !missing.length && !duplicated.length && !unexpected.length && !misordered, missing, duplicated, unexpected };
+}
+
+/**
+ * Last resort when the model keeps mangling placeholders: drop them all and put
+ * back only what has an unambiguous position — tags that wrapped the whole
+ * source line, and standalone tags at its very start or end.
+ */
+export function repairPlaceholders(translated: string, markup: LineMarkup): string {
+    let text = translated.replace(PLACEHOLDER_PATTERN, '').replace(/\s{2,}/g, ' ').trim();
+    let source = markup.source;
+    const prefix: string[] = [];
+    const suffix: string[] = [];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const leading = source.match(/^<x\d+\/>|^<(t\d+)>/);
+        if (leading?.[1] && source.endsWith(`</${leading[1]}>`)) {
+            text = `<${leading[1]}>${text}</${leading[1]}>`;
+            source = source.slice(leading[0].length, -`</${leading[1]}>`.length).trim();
+            changed = true;
+        } else if (leading && !leading[1]) {
+            prefix.push(leading[0]);
+            source = source.slice(leading[0].length).trim();
+            changed = true;
+        }
+        const trailing = source.match(/<x\d+\/>$/);
+        if (trailing) {
+            suffix.unshift(trailing[0]);
+            source = source.slice(0, -trailing[0].length).trim();
+            changed = true;
+        }
+    }
+    return `${prefix.join('')}${text}${suffix.join('')}`;
+}
+
+/**
+ * Swaps placeholders back for the original tags. Markup only survives when the
+ * output format understands it: HTML-style tags in SRT/VTT, override blocks in
+ * ASS (and {\anN} in SRT); anything else is dropped rather than shown as text.
+ */
+export function restoreMarkup(translated: string, markup: LineMarkup | undefined, format: SubtitleFormat): string {
+    return translated.replace(PLACEHOLDER_PATTERN, placeholder => {
+        const id = placeholder.match(/t\d+|x\d+/)![0];
+        const tag = markup?.tags[id];
+        if (!tag) return '';
+        const value = placeholder.startsWith('</') ? tag.close ?? '' : tag.open;
+        return supports(format, value) ? value : '';
+    });
+}
+
+/** What a reviewer edits: the cue text with the tags `format` keeps. */
+export function displayText(line: SrtLine, format: SubtitleFormat): string {
+    return line.markup ? restoreMarkup(line.markup.source, line.markup, format) : line.text;
+}
+
+function supports(format: SubtitleFormat, tag: string): boolean {
+    const isOverride = tag.startsWith('{');
+    switch (format) {
+        case 'ass': return isOverride;
+        case 'srt': return !isOverride || /^\{\\an\d\}$/.test(tag);
+        case 'vtt': return !isOverride;
+        case 'sbv': return false;
+    }
+}
+
+export const MARKUP_INSTRUCTIONS = `Some lines contain formatting placeholders: paired ones like <t1>…</t1> and standalone ones like <x2/>. Keep every placeholder exactly once. Paired placeholders must wrap the translated words that correspond to the words they wrap in the source, even when the word order changes; standalone placeholders stay at the same position in the sentence. Never invent new placeholders.`;
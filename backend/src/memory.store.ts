@@ -0,0 +1,41 @@
+import { VectorMatch, VectorRecord, VectorStore } from './vector.store';
+
+/**
+ * Brute-force cosine index held in the worker process. Jobs index and query
+ * from the same process, so nothing needs to survive a restart.
+ */
+export class InMemoryVectorStore implements VectorStore {
+    private readonly jobs = new Map<string, Map<string, VectorRecord>>();
+
+    async upsert(jobId: string, records: VectorRecord[]): Promise<void> {
+        let job = this.jobs.get(jobId);
+        if (!job) {
+            job = new Map();
+            this.jobs.set(jobId, job);
+        }
+        for (const record of records) job.set(record.id, record);
+    }
+
+    async query(jobId: string, vector: number[], topK: number): Promise<VectorMatch[]> {
+        const job = this.jobs.get(jobId);
+        if (!job) return [];
+        return [...job.values()]
+            .map(record => ({ id: record.id, text: record.text, score: cosineSimilarity(vector, record.values) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    async deleteJob(jobId: string): Promise<void> {
+        this.jobs.delete(jobId);
+    }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
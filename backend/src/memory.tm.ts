@@ -0,0 +1,34 @@
+import { FUZZY_THRESHOLD, MemoryMatch, MemorySegment, TranslationMemory, normalizeSegment, segmentSimilarity } from './translation.memory';
+
+/** Process-local translation memory for development and tests; forgotten on restart. */
+export class InMemoryTranslationMemory implements TranslationMemory {
+    private readonly segments = new Map<string, MemorySegment>();
+
+    async store(segments: MemorySegment[]): Promise<void> {
+        for (const segment of segments) {
+            this.segments.set(this.key(segment.sourceLanguage, segment.targetLanguage, segment.sourceText), segment);
+        }
+    }
+
+    async findExact(sourceLanguage: string, targetLanguage: string, sourceTexts: string[]): Promise<Map<string, MemoryMatch>> {
+        const matches = new Map<string, MemoryMatch>();
+        for (const sourceText of sourceTexts) {
+            const segment = this.segments.get(this.key(sourceLanguage, targetLanguage, sourceText));
+            if (segment) matches.set(sourceText, { sourceText: segment.sourceText, targetText: segment.targetText, score: 1, origin: segment.origin });
+        }
+        return matches;
+    }
+
+    async findFuzzy(sourceLanguage: string, targetLanguage: string, sourceText: string, limit: number): Promise<MemoryMatch[]> {
+        return [...this.segments.values()]
+            .filter(segment => segment.sourceLanguage === sourceLanguage && segment.targetLanguage === targetLanguage)
+            .map(segment => ({ sourceText: segment.sourceText, targetText: segment.targetText, score: segmentSimilarity(sourceText, segment.sourceText), origin: segment.origin }))
+            .filter(match => match.score >= FUZZY_THRESHOLD && match.score < 1)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    private key(sourceLanguage: string, targetLanguage: string, sourceText: string): string {
+        return `${sourceLanguage}:${targetLanguage}:${normalizeSegment(sourceText)}`;
+    }
+}
@@ -0,0 +1,82 @@
+import { JsonRequest, JsonTask, LlmProvider, LlmRequest, TokenUsage, estimateTokens } from './llm.provider';
+
+const EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Deterministic, offline provider for tests and CI. Every answer is derived
+ * from the prompt alone, so the same input always yields the same job output.
+ */
+export class MockProvider implements LlmProvider {
+    readonly name = 'mock';
+
+    async generateJson({ task, prompt, onUsage }: JsonRequest): Promise<any> {
+        const answer = this.json(task, prompt);
+        onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(JSON.stringify(answer)) });
+        return answer;
+    }
+
+    private json(task: JsonTask, prompt: string): any {
+        switch (task) {
+            case 'keywords': return { keywords: [] };
+            case 'scene_notes': return { summary: 'Mock scene.', keyPoints: [], characters: [], culturalNuances: [] };
+            case 'grounding': return { grounded_keywords: [] };
+            case 'triage': return { classifications: [] };
+            case 'analysis': return {
+                summary: 'Mock summary.',
+                keyPoints: [],
+                characterProfiles: [],
+                culturalNuances: [],
+            };
+            case 'glossary': return { glossary: [] };
+            case 'batch_translation': {
+                const lines: { sequence: number, text: string }[] = JSON.parse(prompt.match(/Lines to Translate \(JSON\):\n(.*)\n/)?.[1] ?? '[]');
+                return { translations: lines.map(line => ({ sequence: line.sequence, translation: `[mock] ${line.text}` })) };
+            }
+            // The critic objects to every draft, so thinking mode's refinement path always runs.
+            case 'critique': {
+                const drafts: { sequence: number }[] = JSON.parse(prompt.match(/Drafts to Review \(JSON\):\n(.*)\n/)?.[1] ?? '[]');
+                return { critiques: drafts.map(draft => ({ sequence: draft.sequence, issues: ['[mock] The draft reads too literally.'] })) };
+            }
+            case 'refinement': {
+                const lines: { sequence: number, text: string }[] = JSON.parse(prompt.match(/Lines to Refine \(JSON\):\n(.*)\n/)?.[1] ?? '[]');
+                return { translations: lines.map(line => ({ sequence: line.sequence, translation: `[mock refined] ${line.text}` })) };
+            }
+            case 'alternatives': {
+                const currentLine = prompt.match(/Current Line: "([\s\S]*)"\n/)?.[1] ?? '';
+                const count = Number(prompt.match(/exactly (\d+) distinct/)?.[1] ?? 1);
+                return { alternatives: Array.from({ length: count }, (_, i) => `[mock ${i + 1}] ${currentLine}`) };
+            }
+        }
+    }
+
+    async generateText({ prompt, onUsage }: LlmRequest): Promise<string> {
+        const text = this.text(prompt);
+        onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+        return text;
+    }
+
+    async embed(_model: string, texts: string[], onUsage?: (usage: TokenUsage) => void): Promise<number[][]> {
+        onUsage?.({ inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 });
+        return texts.map(text => this.hashEmbedding(text));
+    }
+
+    private text(prompt: string): string {
+        // Condensing drops the last word, so over-long lines converge within a few retries.
+        const toShorten = prompt.match(/Translation to Shorten: "([\s\S]*)"\n/)?.[1];
+        if (toShorten !== undefined) return toShorten.split(' ').slice(0, -1).join(' ') || toShorten;
+        const currentLine = prompt.match(/Current Line: "([\s\S]*)"\n/)?.[1];
+        return `[mock] ${currentLine ?? ''}`.trim();
+    }
+
+    // Bag-of-words hashed into a fixed-size vector, so similar lines land near each other.
+    private hashEmbedding(text: string): number[] {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+            let hash = 0;
+            for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+            vector[hash % EMBEDDING_DIMENSIONS] += 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map(v => v / norm);
+    }
+}
@@ -0,0 +1,50 @@
+import { TranslationMemoryModel } from './db';
+import { FUZZY_THRESHOLD, MemoryMatch, MemorySegment, TranslationMemory, normalizeSegment, segmentSimilarity } from './translation.memory';
+
+// How many text-search candidates are re-scored per fuzzy lookup.
+const FUZZY_CANDIDATES = 25;
+
+/**
+ * Segments live in MongoDB, one document per normalised source text and
+ * language pair; a newer approval of the same source replaces the older one.
+ * Fuzzy lookups use the text index to shortlist candidates, then re-score them.
+ */
+export class MongoTranslationMemory implements TranslationMemory {
+    async store(segments: MemorySegment[]): Promise<void> {
+        if (segments.length === 0) return;
+        await TranslationMemoryModel.bulkWrite(segments.map(segment => ({
+            updateOne: {
+                filter: { sourceLanguage: segment.sourceLanguage, targetLanguage: segment.targetLanguage, normalizedSource: normalizeSegment(segment.sourceText) },
+                update: { $set: { ...segment } },
+                upsert: true,
+            },
+        })));
+    }
+
+    async findExact(sourceLanguage: string, targetLanguage: string, sourceTexts: string[]): Promise<Map<string, MemoryMatch>> {
+        const matches = new Map<string, MemoryMatch>();
+        if (sourceTexts.length === 0) return matches;
+        const docs: any[] = await TranslationMemoryModel.find({
+            sourceLanguage, targetLanguage, normalizedSource: { $in: sourceTexts.map(normalizeSegment) },
+        }).lean();
+        const byNormalized = new Map(docs.map(doc => [doc.normalizedSource, doc]));
+        for (const sourceText of sourceTexts) {
+            const doc = byNormalized.get(normalizeSegment(sourceText));
+            if (doc) matches.set(sourceText, { sourceText: doc.sourceText, targetText: doc.targetText, score: 1, origin: doc.origin });
+        }
+        return matches;
+    }
+
+    async findFuzzy(sourceLanguage: string, targetLanguage: string, sourceText: string, limit: number): Promise<MemoryMatch[]> {
+        const docs: any[] = await TranslationMemoryModel.find(
+            // Quotes and leading hyphens are phrase/negation operators in $search.
+            { sourceLanguage, targetLanguage, $text: { $search: sourceText.replace(/["-]/g, ' ') } },
+            { score: { $meta: 'textScore' } }
+        ).sort({ score: { $meta: 'textScore' } }).limit(FUZZY_CANDIDATES).lean();
+        return docs
+            .map(doc => ({ sourceText: doc.sourceText, targetText: doc.targetText, score: segmentSimilarity(sourceText, doc.sourceText), origin: doc.origin }))
+            .filter(match => match.score >= FUZZY_THRESHOLD && match.score < 1)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
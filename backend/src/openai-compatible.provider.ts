@@ -0,0 +1,65 @@
+import { JsonRequest, LlmProvider, LlmProviderError, LlmRequest, TokenUsage, estimateTokens, parseJsonResponse } from './llm.provider';
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` and `/embeddings`
+ * routes, e.g. llama.cpp's `llama-server`, Ollama or vLLM.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+    readonly name = 'openai';
+
+    constructor(private readonly baseUrl: string, private readonly apiKey?: string) {}
+
+    async generateJson({ model, prompt, onUsage }: JsonRequest): Promise<any> {
+        const content = await this.chat(model, prompt, true, onUsage);
+        return parseJsonResponse(content);
+    }
+
+    async generateText({ model, prompt, onUsage }: LlmRequest): Promise<string> {
+        return this.chat(model, prompt, false, onUsage);
+    }
+
+    async embed(model: string, texts: string[], onUsage?: (usage: TokenUsage) => void): Promise<number[][]> {
+        const body = await this.post('/embeddings', { model, input: texts });
+        onUsage?.({ inputTokens: body.usage?.prompt_tokens ?? texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0 });
+        return (body.data as { index: number, embedding: number[] }[])
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+
+    // Servers that leave out `usage` (some local ones do) get an estimate from the text instead.
+    private async chat(model: string, prompt: string, json: boolean, onUsage?: (usage: TokenUsage) => void): Promise<string> {
+        const body = await this.post('/chat/completions', {
+            model,
+            messages: [{ role: 'user', content: prompt }],
+            ...(json ? { response_format: { type: 'json_object' } } : {}),
+        });
+        const content: string = body.choices?.[0]?.message?.content ?? '';
+        onUsage?.({ inputTokens: body.usage?.prompt_tokens ?? estimateTokens(prompt), outputTokens: body.usage?.completion_tokens ?? estimateTokens(content) });
+        return content;
+    }
+
+    private async post(path: string, payload: unknown): Promise<any> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+                },
+                body: JSON.stringify(payload),
+            });
+        } catch (error: any) {
+            throw new LlmProviderError(`Request to ${this.baseUrl} failed: ${error.message}`);
+        }
+        if (!response.ok) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            throw new LlmProviderError(
+                `[${response.status} ${response.statusText}] ${await response.text()}`,
+                response.status,
+                Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+            );
+        }
+        return response.json();
+    }
+}
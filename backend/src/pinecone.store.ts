@@ -0,0 +1,32 @@
+import { Index, Pinecone } from '@pinecone-database/pinecone';
+import { VectorMatch, VectorRecord, VectorStore } from './vector.store';
+
+/** Stores each job in its own namespace, so cleanup is a single namespace delete on both pod and serverless indexes. */
+export class PineconeVectorStore implements VectorStore {
+    private readonly index: Index;
+
+    constructor(apiKey: string, indexName: string) {
+        this.index = new Pinecone({ apiKey }).index(indexName);
+    }
+
+    async upsert(jobId: string, records: VectorRecord[]): Promise<void> {
+        const namespace = this.index.namespace(jobId);
+        const vectors = records.map(r => ({ id: r.id, values: r.values, metadata: { jobId, text: r.text } }));
+        for (let i = 0; i < vectors.length; i += 100) {
+            await namespace.upsert(vectors.slice(i, i + 100));
+        }
+    }
+
+    async query(jobId: string, vector: number[], topK: number): Promise<VectorMatch[]> {
+        const results = await this.index.namespace(jobId).query({ vector, topK, includeMetadata: true });
+        return (results.matches ?? []).map(match => ({
+            id: match.id,
+            score: match.score ?? 0,
+            text: String(match.metadata?.text ?? ''),
+        }));
+    }
+
+    async deleteJob(jobId: string): Promise<void> {
+        await this.index.namespace(jobId).deleteAll();
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TranslationHooks, TranslationWorkerService } from './translation.worker';
+import { parseSubtitles } from './subtitle.formats';
+import { resolveConstraints } from './constraints';
+import { LineCritique, QaReport, SubtitleDocument, TranslationSettings } from './types';
+
+// Runs blueprint generation and translation end to end on the mock provider (LLM_PROVIDER=mock, see `npm test`).
+
+const SCRIPT = [
+    '1', '00:00:01,000 --> 00:00:02,500', '<i>Hello there.</i>', '',
+    '2', '00:00:03,000 --> 00:00:04,000', 'General Kenobi!', '',
+    '3', '00:00:05,000 --> 00:00:07,000', 'You are a bold one.', '',
+].join('\n');
+
+const settings = (changes: Partial<TranslationSettings> = {}): Omit<TranslationSettings, 'targetLanguage'> => ({
+    tone: 'Casual', mode: 'batch', outputFormat: 'srt', constraints: resolveConstraints(), sourceLanguage: 'en',
+    qaRetranslate: false, thinkingMode: false, ...changes,
+});
+
+function recordingHooks(completedLines = new Map<string, Map<number, string>>()) {
+    const translated: { language: string, sequence: number }[] = [];
+    const reports: QaReport[] = [];
+    const critiques: LineCritique[] = [];
+    const hooks: TranslationHooks = {
+        updateStage: () => {},
+        checkCancelled: async () => {},
+        completedLines,
+        onLineTranslated: async (language, sequence) => { translated.push({ language, sequence }); },
+        onQaReport: report => { reports.push(report); },
+        onCritiques: async batch => { critiques.push(...batch); },
+        onScriptIndexed: async () => {},
+    };
+    return { hooks, translated, reports, critiques };
+}
+
+async function translate(document: SubtitleDocument, targets: string[], changes: Partial<TranslationSettings> = {}, completedLines?: Map<string, Map<number, string>>) {
+    const service = new TranslationWorkerService();
+    const blueprints = await service.generateBlueprints(document.lines, 'Casual', [], 'en', targets, () => {});
+    const recorded = recordingHooks(completedLines);
+    const translations = await service.executeTranslation('test-job', document, blueprints, settings(changes), recorded.hooks);
+    return { blueprints, translations, ...recorded };
+}
+
+describe('translation pipeline on the mock provider', () => {
+    const { document } = parseSubtitles(SCRIPT, 'srt');
+
+    it('translates every cue into every target and keeps the timings and markup', async () => {
+        const { blueprints, translations, translated, reports } = await translate(document, ['fa', 'fr']);
+
+        assert.deepEqual(Object.keys(blueprints).sort(), ['fa', 'fr']);
+        assert.deepEqual(translations.map(translation => translation.language), ['fa', 'fr']);
+        assert.equal(translated.length, 6);
+        assert.equal(reports.length, 2);
+        for (const translation of translations) {
+            const output = parseSubtitles(translation.result, 'srt').document.lines;
+            assert.deepEqual(output.map(line => [line.startTime, line.endTime]), document.lines.map(line => [line.startTime, line.endTime]));
+            assert.ok(output.every(line => line.text.trim().length > 0));
+            assert.match(translation.result, /\[mock\]/);
+            assert.match(translation.result, /<i>.*Hello there\..*<\/i>/);
+            assert.equal(translation.compliance.totalCues, 3);
+        }
+    });
+
+    it('writes the requested output format', async () => {
+        const { translations: [translation] } = await translate(document, ['fr'], { outputFormat: 'vtt' });
+
+        assert.match(translation.result, /^WEBVTT/);
+        assert.equal(parseSubtitles(translation.result, 'vtt').document.lines.length, 3);
+    });
+
+    it('reuses lines finished by an earlier attempt', async () => {
+        const completed = new Map([['fr', new Map([[1, 'Bonjour.'], [2, 'Général Kenobi !']])]]);
+        const { translations: [translation], translated } = await translate(document, ['fr'], {}, completed);
+
+        assert.deepEqual(translated, [{ language: 'fr', sequence: 3 }]);
+        assert.match(translation.result, /Bonjour\./);
+        assert.match(translation.result, /Général Kenobi !/);
+    });
+
+    it('runs the critique and refinement passes in thinking mode', async () => {
+        const { translations: [translation], critiques } = await translate(document, ['fr'], { thinkingMode: true });
+        const lines = parseSubtitles(translation.result, 'srt').document.lines;
+
+        assert.equal(lines.length, 3);
+        // The mock critic objects to every draft, and its refiner marks what it rewrote.
+        assert.deepEqual(critiques.map(critique => critique.sequence).sort(), [1, 2, 3]);
+        critiques.forEach(critique => {
+            assert.deepEqual(critique.issues, ['[mock] The draft reads too literally.']);
+            assert.notEqual(critique.refined, critique.draft);
+        });
+        assert.ok(lines.every(line => line.text.includes('[mock refined]')), translation.result);
+    });
+});
@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import { ProjectEpisodeModel, ProjectModel } from './db';
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from './languages';
+import { mergeIntoSeries } from './blueprints';
+import { canAccess } from './auth';
+import { BlueprintSet, Project, ProjectEpisode, ProjectSummary, SeriesBlueprint, User } from './types';
+
+export interface ProjectInput {
+    name: string;
+    description?: string;
+    sourceLanguage: string;
+}
+
+/** Raised when an edit would clash with another project, or a concurrent episode kept winning the race. */
+export class ProjectConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectConflictError';
+    }
+}
+
+const MAX_EPISODE_LABEL = 100;
+const RECORD_ATTEMPTS = 3;
+
+/** Returns an error message for an invalid create/update body, or null. */
+export function validateProjectInput(input: any, partial = false): string | null {
+    if (input === null || typeof input !== 'object') return 'Project details are required.';
+    if ((!partial || input.name !== undefined) && (typeof input.name !== 'string' || !input.name.trim())) return 'name must be a non-empty string.';
+    if (input.description !== undefined && typeof input.description !== 'string') return 'description must be a string.';
+    if (partial && input.sourceLanguage !== undefined) return 'The source language of a project cannot be changed.';
+    if (!partial && !isSupportedLanguage(input.sourceLanguage)) return `sourceLanguage must be one of: ${SUPPORTED_LANGUAGES.join(', ')}.`;
+    return null;
+}
+
+/** Returns an error message for the episode label given with a job, or null. */
+export function validateEpisodeLabel(label: unknown): string | null {
+    if (label === undefined) return null;
+    if (typeof label !== 'string' || !label.trim() || label.length > MAX_EPISODE_LABEL) return `episode must be a non-empty string of at most ${MAX_EPISODE_LABEL} characters.`;
+    return null;
+}
+
+// Administrators see every project, everyone else only their own.
+const visibleTo = (user: User) => user.role === 'admin' ? {} : { ownerId: user.id };
+
+export async function listProjects(user: User): Promise<ProjectSummary[]> {
+    const docs = await ProjectModel.find(visibleTo(user)).sort({ name: 1 }).lean();
+    const counts = await ProjectEpisodeModel.aggregate([
+        { $match: { projectId: { $in: docs.map(doc => String(doc._id)) } } },
+        { $group: { _id: '$projectId', count: { $sum: 1 } } },
+    ]);
+    const episodes = new Map<string, number>(counts.map((count: any) => [count._id, count.count]));
+    return docs.map(doc => {
+        const { blueprint, ...summary } = toProject(doc);
+        return {
+            ...summary,
+            characterCount: blueprint.characterProfiles.length,
+            termCount: Object.values(blueprint.glossaries).reduce((sum, terms) => sum + terms.length, 0),
+            episodeCount: episodes.get(summary.id) ?? 0,
+        };
+    });
+}
+
+/**
+ * Loads a project on behalf of `user`; like getJob(), a project they may not
+ * see is reported as missing. The worker, acting for the job, passes no user.
+ */
+export async function getProject(id: string, user?: User): Promise<Project | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const doc: any = await ProjectModel.findById(id).lean();
+    if (!doc || (user && !canAccess(user, doc.ownerId ?? undefined))) return null;
+    return toProject(doc);
+}
+
+export async function createProject(input: ProjectInput, user: User): Promise<Project> {
+    try {
+        const doc = await ProjectModel.create({
+            ownerId: user.id,
+            name: input.name.trim(),
+            description: input.description ?? '',
+            sourceLanguage: input.sourceLanguage,
+        });
+        return toProject(doc.toObject());
+    } catch (error: any) {
+        if (error.code === 11000) throw new ProjectConflictError(`A project named "${input.name.trim()}" already exists.`);
+        throw error;
+    }
+}
+
+export async function updateProject(id: string, changes: Partial<Pick<ProjectInput, 'name' | 'description'>>, user: User): Promise<Project | null> {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const update: Record<string, string> = {};
+    if (changes.name !== undefined) update.name = changes.name.trim();
+    if (changes.description !== undefined) update.description = changes.description;
+    try {
+        const doc = await ProjectModel.findOneAndUpdate({ _id: id, ...visibleTo(user) }, { $set: update }, { new: true }).lean();
+        return doc ? toProject(doc) : null;
+    } catch (error: any) {
+        if (error.code === 11000) throw new ProjectConflictError(`A project named "${update.name}" already exists.`);
+        throw error;
+    }
+}
+
+/** Deletes a project and its episode history. Jobs that referenced it keep their own blueprints. */
+export async function deleteProject(id: string, user: User): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const doc = await ProjectModel.findOneAndDelete({ _id: id, ...visibleTo(user) });
+    if (!doc) return false;
+    await ProjectEpisodeModel.deleteMany({ projectId: id });
+    return true;
+}
+
+/** The episodes of a project in the order they were recorded, each with what it added. */
+export async function listEpisodes(projectId: string): Promise<ProjectEpisode[]> {
+    const docs = await ProjectEpisodeModel.find({ projectId }).sort({ createdAt: 1 }).lean();
+    return docs.map(toEpisode);
+}
+
+/**
+ * Folds a finished job's blueprints into its project and records the
+ * difference as an episode. A job is recorded once, so a retried job does not
+ * count twice. The version check makes two episodes finishing together merge
+ * one after the other instead of one overwriting the other; returns null when
+ * the project no longer exists. Only the `approvedTerms` may change the
+ * translation of an established series term (see mergeIntoSeries()).
+ */
+export async function recordEpisode(
+    projectId: string, jobId: string, label: string | undefined, blueprints: BlueprintSet, approvedTerms: Record<string, string[]> = {}
+): Promise<ProjectEpisode | null> {
+    const recorded = await ProjectEpisodeModel.findOne({ jobId }).lean();
+    if (recorded) return toEpisode(recorded);
+    for (let attempt = 0; attempt < RECORD_ATTEMPTS; attempt++) {
+        const doc: any = await ProjectModel.findById(projectId).lean();
+        if (!doc) return null;
+        const { blueprint, changes } = mergeIntoSeries(toSeriesBlueprint(doc.blueprint), blueprints, approvedTerms);
+        const updated = await ProjectModel.findOneAndUpdate(
+            { _id: projectId, version: doc.version },
+            { $set: { blueprint }, $inc: { version: 1 } },
+            { new: true }
+        ).lean();
+        if (!updated) continue;
+        const episode = label?.trim() || `Episode ${await ProjectEpisodeModel.countDocuments({ projectId }) + 1}`;
+        const created = await ProjectEpisodeModel.create({ projectId, jobId, episode, version: updated.version, changes });
+        return toEpisode(created.toObject());
+    }
+    throw new ProjectConflictError(`Project ${projectId} kept changing while episode ${jobId} was being recorded.`);
+}
+
+function toSeriesBlueprint(value: any): SeriesBlueprint {
+    return {
+        characterProfiles: value?.characterProfiles ?? [],
+        culturalNuances: value?.culturalNuances ?? [],
+        glossaries: value?.glossaries ?? {},
+    };
+}
+
+function toProject(doc: any): Project {
+    return {
+        id: String(doc._id),
+        ownerId: doc.ownerId ?? null,
+        name: doc.name,
+        description: doc.description ?? '',
+        sourceLanguage: doc.sourceLanguage,
+        version: doc.version,
+        blueprint: toSeriesBlueprint(doc.blueprint),
+        createdAt: new Date(doc.createdAt).toISOString(),
+        updatedAt: new Date(doc.updatedAt).toISOString(),
+    };
+}
+
+function toEpisode(doc: any): ProjectEpisode {
+    return {
+        projectId: doc.projectId,
+        jobId: doc.jobId,
+        episode: doc.episode,
+        version: doc.version,
+        // Episodes recorded before proposed term changes were kept apart have none.
+        changes: { proposedTerms: {}, ...doc.changes },
+        createdAt: new Date(doc.createdAt).toISOString(),
+    };
+}
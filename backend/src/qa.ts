@@ -0,0 +1,127 @@
+import { GlossaryTerm, QaIssue, QaReport, TranslatedSrtLine } from './types';
+import { LanguageProfile, Script } from './languages';
+import { plainText } from './constraints';
+
+const SCRIPT_WORD: Record<Script, RegExp> = {
+    latin: /[A-Za-z\u00C0-\u024F][A-Za-z\u00C0-\u024F'\u2019-]{2,}/g,
+    arabic: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]{3,}/g,
+};
+const LETTER = 'A-Za-z0-9\\u00C0-\\u024F\\u0600-\\u06FF\\u0750-\\u077F\\uFB50-\\uFDFF\\uFE70-\\uFEFF';
+
+// What models say around a translation instead of the translation itself. Dialogue says these things too ("Sure, come in."),
+// so a match only counts when the source line does not say it as well.
+const CHATTER_PATTERNS = [
+    /^(here('s| is)|sure\b|certainly\b|of course\b|i('m| am) sorry|i cannot|as an ai)/i,
+    /\b(translation|transcreation|note|explanation|original)\s*:/i,
+];
+// A rendering this much longer than its source is almost certainly carrying commentary.
+const CHATTER_LENGTH_RATIO = 3;
+const CHATTER_LENGTH_SLACK = 20;
+
+// Identical lines of a single word ("Yes.", "Okay.") legitimately vary with the speaker and are not compared.
+const MIN_CONSISTENCY_WORDS = 2;
+
+const compareForm = (text: string) => plainText(text).normalize('NFC').toLowerCase();
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function containsTerm(text: string, term: string): boolean {
+    const pattern = new RegExp(`(^|[^${LETTER}])${escapeRegExp(compareForm(term))}($|[^${LETTER}])`);
+    return pattern.test(text);
+}
+
+/**
+ * Checks translated cues against the blueprint glossary and against each other,
+ * and looks for source-language text and model chatter left in the output.
+ */
+export function checkTranslation(
+    lines: TranslatedSrtLine[], glossary: GlossaryTerm[],
+    source: LanguageProfile, target: LanguageProfile
+): QaIssue[] {
+    const issues: QaIssue[] = [];
+    const terms = glossary.filter(term => term.term && term.proposedTranslation);
+    // Words of approved renderings may legitimately stay in the source script (brand names, acronyms).
+    const allowed = new Set(terms.reduce<string[]>((words, term) => words.concat(compareForm(term.proposedTranslation).split(' ')), []));
+
+    for (const line of lines) {
+        const sourceText = compareForm(line.text);
+        const translated = compareForm(line.translatedText);
+        if (!sourceText) continue;
+        if (!translated) {
+            issues.push({ sequence: line.sequence, type: 'empty', message: 'The cue has no translation.' });
+            continue;
+        }
+        const quoted = /^["«“].*["»”]$/.test(translated) && !/^["«“]/.test(sourceText);
+        if (quoted || CHATTER_PATTERNS.some(pattern => pattern.test(translated) && !pattern.test(sourceText))) {
+            issues.push({ sequence: line.sequence, type: 'chatter', message: 'The translation contains text addressed to the reader of the prompt, not the viewer.' });
+        } else if (translated.length > sourceText.length * CHATTER_LENGTH_RATIO + CHATTER_LENGTH_SLACK) {
+            issues.push({ sequence: line.sequence, type: 'chatter', message: `The translation is ${translated.length} characters long for a ${sourceText.length}-character line.` });
+        }
+
+        for (const term of terms) {
+            if (containsTerm(sourceText, term.term) && !translated.includes(compareForm(term.proposedTranslation))) {
+                issues.push({
+                    sequence: line.sequence, type: 'glossary', expected: term.proposedTranslation,
+                    message: `Glossary term "${term.term}" should be rendered as "${term.proposedTranslation}".`,
+                });
+            }
+        }
+
+        // When the scripts differ, any source-script word copied into the output is suspect; when they match, only an unchanged cue is.
+        if (source.script === target.script) {
+            if (translated === sourceText && (sourceText.match(SCRIPT_WORD[source.script]) ?? []).length >= 2) {
+                issues.push({ sequence: line.sequence, type: 'untranslated', message: `The cue was left in ${source.name}.` });
+            }
+        } else {
+            const leftover = copiedWords(line, source.script, allowed);
+            if (leftover.length > 0) {
+                issues.push({ sequence: line.sequence, type: 'untranslated', message: `${source.name} text left in the translation: ${leftover.join(', ')}.` });
+            }
+        }
+    }
+
+    return issues.concat(checkConsistency(lines));
+}
+
+export function buildQaReport(language: string, lines: TranslatedSrtLine[], issues: QaIssue[], retranslated: number[]): QaReport {
+    return {
+        language,
+        checkedCues: lines.length,
+        flaggedCues: new Set(issues.map(issue => issue.sequence)).size,
+        retranslated,
+        issues: [...issues].sort((a, b) => a.sequence - b.sequence),
+    };
+}
+
+function copiedWords(line: TranslatedSrtLine, script: Script, allowed: Set<string>): string[] {
+    const copied = new Set((compareForm(line.text).match(SCRIPT_WORD[script]) ?? []));
+    const leftover = (plainText(line.translatedText).match(SCRIPT_WORD[script]) ?? [])
+        .filter(word => copied.has(word.toLowerCase()) && !allowed.has(word.toLowerCase()));
+    return leftover.filter((word, i) => leftover.indexOf(word) === i);
+}
+
+/** Repeated source lines should read the same everywhere; the most common rendering wins, ties go to the earliest. */
+function checkConsistency(lines: TranslatedSrtLine[]): QaIssue[] {
+    const groups = new Map<string, TranslatedSrtLine[]>();
+    for (const line of lines) {
+        const key = compareForm(line.text);
+        if (key.split(' ').length < MIN_CONSISTENCY_WORDS || !compareForm(line.translatedText)) continue;
+        groups.set(key, [...(groups.get(key) ?? []), line]);
+    }
+
+    const issues: QaIssue[] = [];
+    for (const group of groups.values()) {
+        const counts = new Map<string, number>();
+        group.forEach(line => counts.set(compareForm(line.translatedText), (counts.get(compareForm(line.translatedText)) ?? 0) + 1));
+        if (counts.size < 2) continue;
+        const majority = [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+        const reference = group.find(line => compareForm(line.translatedText) === majority)!;
+        for (const line of group) {
+            if (compareForm(line.translatedText) === majority) continue;
+            issues.push({
+                sequence: line.sequence, type: 'inconsistent', expected: reference.translatedText,
+                message: `Line ${reference.sequence} has the same source text but is translated differently.`,
+            });
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,46 @@
+import { SrtLine } from './types';
+import { timestampToMs } from './subtitle.formats';
+
+/**
+ * Splits a script into chunks small enough for one blueprint prompt. A pause
+ * of at least `sceneGapMs` between two cues is taken as a scene break; whole
+ * scenes are packed into chunks of up to `maxCharacters` of text, and a scene
+ * longer than that is cut at cue boundaries.
+ */
+export function chunkScript(lines: SrtLine[], maxCharacters: number, sceneGapMs: number): SrtLine[][] {
+    const chunks: SrtLine[][] = [];
+    let current: SrtLine[] = [];
+    let size = 0;
+    for (const scene of splitScenes(lines, sceneGapMs)) {
+        const sceneSize = textLength(scene);
+        if (current.length > 0 && size + sceneSize > maxCharacters) {
+            chunks.push(current);
+            current = [];
+            size = 0;
+        }
+        for (const line of scene) {
+            if (current.length > 0 && size + line.text.length + 1 > maxCharacters) {
+                chunks.push(current);
+                current = [];
+                size = 0;
+            }
+            current.push(line);
+            size += line.text.length + 1;
+        }
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+}
+
+function splitScenes(lines: SrtLine[], sceneGapMs: number): SrtLine[][] {
+    const scenes: SrtLine[][] = [];
+    lines.forEach((line, i) => {
+        const previous = lines[i - 1];
+        const gap = previous ? timestampToMs(line.startTime) - timestampToMs(previous.endTime) : Infinity;
+        if (scenes.length === 0 || gap >= sceneGapMs) scenes.push([line]);
+        else scenes[scenes.length - 1].push(line);
+    });
+    return scenes;
+}
+
+const textLength = (lines: SrtLine[]) => lines.reduce((sum, line) => sum + line.text.length + 1, 0);
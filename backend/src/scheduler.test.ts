@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LlmProviderError } from './llm.provider';
+import { ModelBudget, RequestScheduler, SchedulerClock } from './scheduler';
+
+// Lets every pending promise callback run before the test looks again.
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+/** A clock that only moves when the test advances it, firing due timers in order. */
+class ManualClock implements SchedulerClock {
+    private time = 0;
+    private timers: { at: number, callback: () => void }[] = [];
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(callback: () => void, ms: number): void {
+        this.timers.push({ at: this.time + ms, callback });
+    }
+
+    async advance(ms: number): Promise<void> {
+        const until = this.time + ms;
+        for (;;) {
+            await settle();
+            const due = this.timers.filter(timer => timer.at <= until).sort((a, b) => a.at - b.at)[0];
+            if (!due) break;
+            this.timers.splice(this.timers.indexOf(due), 1);
+            this.time = due.at;
+            due.callback();
+        }
+        this.time = until;
+        await settle();
+    }
+}
+
+function createScheduler(options: { concurrency?: number, budgets?: Record<string, ModelBudget> } = {}) {
+    const clock = new ManualClock();
+    const scheduler = new RequestScheduler({
+        concurrency: options.concurrency ?? 10,
+        maxRetries: 2,
+        baseDelayMs: 1000,
+        maxDelayMs: 60_000,
+        budgets: options.budgets ?? {},
+        clock,
+    });
+    const started: string[] = [];
+    // Schedules a call that records its start and resolves at once.
+    const call = (name: string, { model = 'm', key = 'job', tokens = 100 } = {}) =>
+        scheduler.schedule({ model, key, estimatedTokens: tokens }, async () => {
+            started.push(name);
+            return name;
+        });
+    return { clock, scheduler, started, call };
+}
+
+function deferred() {
+    let open!: () => void;
+    const promise = new Promise<void>(resolve => { open = resolve; });
+    return { promise, open };
+}
+
+describe('RequestScheduler', () => {
+    it('never runs more calls at once than its concurrency', async () => {
+        const { scheduler } = createScheduler({ concurrency: 2 });
+        const gates = [deferred(), deferred(), deferred(), deferred()];
+        let running = 0;
+        let peak = 0;
+        const done = gates.map(gate => scheduler.schedule({ model: 'm', key: 'job', estimatedTokens: 1 }, async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await gate.promise;
+            running--;
+        }));
+        await settle();
+
+        assert.equal(running, 2);
+        gates[0].open();
+        await settle();
+        assert.equal(running, 2);
+        gates.forEach(gate => gate.open());
+        await Promise.all(done);
+        assert.equal(peak, 2);
+    });
+
+    it('holds calls over the requests-per-minute budget until the window slides', async () => {
+        const { clock, started, call } = createScheduler({ budgets: { m: { requestsPerMinute: 2 } } });
+        const done = Promise.all([call('a'), call('b'), call('c'), call('other', { model: 'n' })]);
+        await settle();
+
+        assert.deepEqual(started, ['a', 'b', 'other']);
+        await clock.advance(59_999);
+        assert.deepEqual(started, ['a', 'b', 'other']);
+        await clock.advance(1);
+        assert.deepEqual(started, ['a', 'b', 'other', 'c']);
+        await done;
+    });
+
+    it('holds calls over the tokens-per-minute budget, but admits a large call into an empty window', async () => {
+        const { clock, started, call } = createScheduler({ budgets: { m: { tokensPerMinute: 1000 } } });
+        const done = Promise.all([call('large', { tokens: 1500 }), call('small', { tokens: 100 })]);
+        await settle();
+
+        assert.deepEqual(started, ['large']);
+        await clock.advance(30_000);
+        const more = Promise.all([call('fits', { tokens: 100 })]);
+        await settle();
+        assert.deepEqual(started, ['large']);
+        await clock.advance(30_000);
+        assert.deepEqual(started, ['large', 'small', 'fits']);
+        await Promise.all([done, more]);
+    });
+
+    it('cools a model down after a 429 and retries after Retry-After', async () => {
+        const { clock, scheduler, started, call } = createScheduler();
+        let attempts = 0;
+        const limited = scheduler.schedule({ model: 'm', key: 'a', estimatedTokens: 1 }, async () => {
+            attempts++;
+            if (attempts === 1) throw new LlmProviderError('Too many requests', 429, 5000);
+            return 'ok';
+        });
+        await settle();
+        const waiting = call('same model', { key: 'b' });
+        const unaffected = call('other model', { key: 'b', model: 'n' });
+        await settle();
+
+        assert.equal(attempts, 1);
+        assert.deepEqual(started, ['other model']);
+        await clock.advance(4999);
+        assert.equal(attempts, 1);
+        assert.deepEqual(started, ['other model']);
+        await clock.advance(1);
+        assert.equal(attempts, 2);
+        assert.deepEqual(started, ['other model', 'same model']);
+        assert.equal(await limited, 'ok');
+        await Promise.all([waiting, unaffected]);
+    });
+
+    it('gives up on errors that are not retryable', async () => {
+        const { scheduler } = createScheduler();
+        let attempts = 0;
+
+        await assert.rejects(scheduler.schedule({ model: 'm', key: 'a', estimatedTokens: 1 }, async () => {
+            attempts++;
+            throw new LlmProviderError('Bad request', 400);
+        }), /Bad request/);
+        assert.equal(attempts, 1);
+    });
+
+    it('serves queued jobs round-robin', async () => {
+        const { scheduler, started, call } = createScheduler({ concurrency: 1 });
+        const blocker = deferred();
+        const blocked = scheduler.schedule({ model: 'm', key: 'x', estimatedTokens: 1 }, () => blocker.promise);
+        const done = Promise.all([
+            call('a1', { key: 'a' }), call('a2', { key: 'a' }), call('a3', { key: 'a' }),
+            call('b1', { key: 'b' }), call('b2', { key: 'b' }),
+        ]);
+        await settle();
+
+        assert.deepEqual(started, []);
+        blocker.open();
+        await Promise.all([blocked, done]);
+        assert.deepEqual(started, ['a1', 'b1', 'a2', 'b2', 'a3']);
+    });
+});
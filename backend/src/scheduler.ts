@@ -0,0 +1,204 @@
+import { JsonRequest, LlmProvider, LlmProviderError, LlmRequest, TokenUsage, estimateTokens } from './llm.provider';
+
+export interface ModelBudget {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number;
+}
+
+export interface SchedulerOptions {
+    concurrency: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    budgets: Record<string, ModelBudget>;
+    // Defaults to the system clock; tests pass a manual one.
+    clock?: SchedulerClock;
+}
+
+export interface SchedulerClock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): void;
+}
+
+export interface ScheduledCall {
+    model: string;
+    // Calls sharing a key (one job) are served round-robin against other keys.
+    key: string;
+    estimatedTokens: number;
+}
+
+interface Task {
+    call: ScheduledCall;
+    run: () => Promise<void>;
+}
+
+const WINDOW_MS = 60_000;
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+const systemClock: SchedulerClock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => { setTimeout(callback, ms); },
+};
+
+/**
+ * Single gate for every model request in the process: caps parallelism,
+ * enforces per-model RPM/TPM budgets over a sliding minute, backs off on
+ * retryable failures and shares capacity fairly between jobs.
+ */
+export class RequestScheduler {
+    private readonly queues = new Map<string, Task[]>();
+    private readonly usage = new Map<string, { at: number, tokens: number }[]>();
+    private readonly cooldownUntil = new Map<string, number>();
+    private active = 0;
+    private timerArmed = false;
+    private readonly clock: SchedulerClock;
+
+    constructor(private readonly options: SchedulerOptions) {
+        this.clock = options.clock ?? systemClock;
+    }
+
+    async schedule<T>(call: ScheduledCall, fn: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.enqueue(call, fn);
+            } catch (error) {
+                if (!isRetryable(error) || attempt >= this.options.maxRetries) throw error;
+                const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+                const delay = Math.max(backoff, (error as LlmProviderError).retryAfterMs ?? 0);
+                if ((error as LlmProviderError).status === 429) {
+                    this.cooldownUntil.set(call.model, Math.max(this.cooldownUntil.get(call.model) ?? 0, this.clock.now() + delay));
+                }
+                console.warn(`Retrying ${call.model} call for ${call.key} in ${Math.round(delay)}ms (attempt ${attempt + 1}): ${(error as Error).message}`);
+                await new Promise<void>(resolve => this.clock.setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private enqueue<T>(call: ScheduledCall, fn: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            const run = () => fn().then(resolve, reject);
+            const queue = this.queues.get(call.key) ?? [];
+            queue.push({ call, run });
+            this.queues.set(call.key, queue);
+            this.pump();
+        });
+    }
+
+    private pump(): void {
+        while (this.active < this.options.concurrency) {
+            const task = this.nextRunnable();
+            if (!task) break;
+            this.active++;
+            this.record(task.call);
+            task.run().finally(() => {
+                this.active--;
+                this.pump();
+            });
+        }
+        this.armTimer();
+    }
+
+    // Takes the first admissible task, rotating keys so no single job monopolises the budget.
+    private nextRunnable(): Task | null {
+        for (const [key, queue] of this.queues) {
+            const index = queue.findIndex(task => this.admits(task.call));
+            if (index === -1) continue;
+            const [task] = queue.splice(index, 1);
+            this.queues.delete(key);
+            if (queue.length > 0) this.queues.set(key, queue);
+            return task;
+        }
+        return null;
+    }
+
+    private admits(call: ScheduledCall): boolean {
+        const now = this.clock.now();
+        return this.availableAt(call, now) <= now;
+    }
+
+    // Earliest time the call fits both the cooldown and the model's sliding-window budget.
+    private availableAt({ model, estimatedTokens }: ScheduledCall, now: number): number {
+        const cooldown = this.cooldownUntil.get(model) ?? 0;
+        const budget = this.options.budgets[model];
+        if (!budget) return cooldown;
+        const window = this.window(model, now);
+        const windowFreesAt = window.length > 0 ? window[0].at + WINDOW_MS : now;
+        if (budget.requestsPerMinute && window.length >= budget.requestsPerMinute) return Math.max(cooldown, windowFreesAt);
+        if (budget.tokensPerMinute && window.length > 0) {
+            const used = window.reduce((sum, entry) => sum + entry.tokens, 0);
+            if (used + estimatedTokens > budget.tokensPerMinute) return Math.max(cooldown, windowFreesAt);
+        }
+        return cooldown;
+    }
+
+    private record({ model, estimatedTokens }: ScheduledCall): void {
+        const now = this.clock.now();
+        const window = this.window(model, now);
+        window.push({ at: now, tokens: estimatedTokens });
+        this.usage.set(model, window);
+    }
+
+    private window(model: string, now: number) {
+        return (this.usage.get(model) ?? []).filter(entry => now - entry.at < WINDOW_MS);
+    }
+
+    // When work is queued but blocked on a budget or cooldown, wake up once the first of it becomes admissible.
+    private armTimer(): void {
+        if (this.timerArmed || this.active >= this.options.concurrency) return;
+        const blocked = [...this.queues.values()].flat();
+        if (blocked.length === 0) return;
+        const now = this.clock.now();
+        const wakeAt = Math.min(...blocked.map(({ call }) => this.availableAt(call, now)));
+        this.timerArmed = true;
+        this.clock.setTimeout(() => {
+            this.timerArmed = false;
+            this.pump();
+        }, Math.max(wakeAt - now, 50));
+    }
+}
+
+function isRetryable(error: unknown): boolean {
+    if (!(error instanceof LlmProviderError)) return false;
+    return error.status === undefined || RETRYABLE_STATUS.has(error.status);
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+export function getScheduler(): RequestScheduler {
+    if (!sharedScheduler) {
+        sharedScheduler = new RequestScheduler({
+            concurrency: parseInt(process.env.LLM_CONCURRENCY || '4', 10),
+            maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '5', 10),
+            baseDelayMs: 1000,
+            maxDelayMs: 60_000,
+            budgets: JSON.parse(process.env.LLM_RATE_LIMITS || '{}'),
+        });
+    }
+    return sharedScheduler;
+}
+
+/** Routes every call of a wrapped provider through the scheduler under one fairness key, usually the job id. */
+export class ScheduledLlmProvider implements LlmProvider {
+    readonly name: string;
+
+    constructor(private readonly inner: LlmProvider, private readonly scheduler: RequestScheduler, private readonly key: string) {
+        this.name = inner.name;
+    }
+
+    generateJson(request: JsonRequest): Promise<any> {
+        return this.scheduler.schedule(this.call(request.model, request.prompt), () => this.inner.generateJson(request));
+    }
+
+    generateText(request: LlmRequest): Promise<string> {
+        return this.scheduler.schedule(this.call(request.model, request.prompt), () => this.inner.generateText(request));
+    }
+
+    embed(model: string, texts: string[], onUsage?: (usage: TokenUsage) => void): Promise<number[][]> {
+        return this.scheduler.schedule(this.call(model, texts.join('\n')), () => this.inner.embed(model, texts, onUsage));
+    }
+
+    private call(model: string, input: string): ScheduledCall {
+        // Input plus a rough allowance for the completion.
+        return { model, key: this.key, estimatedTokens: Math.ceil(estimateTokens(input) * 1.5) };
+    }
+}
@@ -0,0 +1,831 @@
+import 'dotenv/config';
+import express from 'express';
+import cors from 'cors';
+import multer from 'multer';
+import http from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+    acceptRetranslations, applyReview, approveBlueprints, cancelJob, createTranslationJob, describeJob, estimateJob, exportTranslation, getJob, importXliff, jobBlueprints, listJobs,
+    RevisionConflictError, proposeRetranslations, rebuildTranslation, resumeJob, retranslateCue, reviewCues, targetResult, translationQueue,
+} from './jobs';
+import { resolveConstraints, validateConstraints } from './constraints';
+import { getJobSnapshot, jobEvents, startJobEventBridge } from './events';
+import { UserConflictError, authenticate, consumeQuota, createUser, deleteUser, getUsage, listUsers, rotateKey, updateUser, validateUserInput } from './auth';
+import { connectDB } from './db';
+import { listCorrections } from './corrections';
+import { listCritiques } from './critiques';
+import { listUsage, summarizeUsage } from './usage';
+import { ModelTier, TranslationMode } from './types';
+import { normalizeBlueprintSet, validateBlueprintSet } from './blueprints';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGES, SUPPORTED_LANGUAGES, isSupportedLanguage, listLanguages } from './languages';
+import { SUBTITLE_FORMATS, decodeSubtitleBuffer, detectFormat, mimeTypeFor, parseSubtitles } from './subtitle.formats';
+import { DELIVERABLE_FORMATS, DeliverableFormat, DeliverableFormatError, deliverableFile } from './deliverables';
+import { GLOSSARY_FORMATS, GlossaryFileFormat, GlossaryFormatError, ParsedGlossaryEntry, detectGlossaryFormat, glossaryMimeType, normalizeEntries, parseGlossaryFile, serializeGlossary } from './glossary.formats';
+import {
+    GlossaryConflictError, addEntries, createGlossary, deleteGlossary, getGlossaries, getGlossary, glossaryItems, glossaryRefs,
+    listGlossaries, removeEntry, suggestTerms, updateEntry, updateGlossary, validateGlossaryInput,
+} from './glossaries';
+import {
+    ProjectConflictError, createProject, deleteProject, getProject, listEpisodes, listProjects, updateProject, validateEpisodeLabel, validateProjectInput,
+} from './projects';
+
+const app = express();
+const server = http.createServer(app);
+const wss = new WebSocketServer({ server });
+const port = process.env.PORT || 3001;
+connectDB();
+startJobEventBridge();
+
+const clients = new Map<string, WebSocket>();
+
+wss.on('connection', (ws) => {
+    console.log('Client connected via WebSocket');
+    ws.on('message', async (message) => {
+        try {
+            const data = JSON.parse(message.toString());
+            if (data.type === 'register' && data.jobId) {
+                // Browsers cannot set headers on a WebSocket, so the key comes with the registration.
+                let allowed = false;
+                try {
+                    const user = await authenticate(typeof data.apiKey === 'string' ? data.apiKey : undefined);
+                    allowed = !!user && !!(await getJob(String(data.jobId), user));
+                } catch (error: any) { console.error(`Failed to check access to job ${data.jobId}:`, error.message); }
+                if (!allowed) {
+                    ws.close(1008, 'Not allowed to follow this job.');
+                    return;
+                }
+                clients.set(data.jobId, ws);
+                console.log(`Client registered for job ${data.jobId}`);
+                
+                const listener = (event: any) => {
+                    if (ws.readyState === WebSocket.OPEN) {
+                        ws.send(JSON.stringify(event));
+                    }
+                };
+                
+                jobEvents.on(data.jobId, listener);
+
+                ws.on('close', () => {
+                    console.log(`Client for job ${data.jobId} disconnected.`);
+                    jobEvents.removeListener(data.jobId, listener);
+                    clients.delete(data.jobId);
+                });
+
+                getJobSnapshot(translationQueue, data.jobId)
+                    .then(events => events.forEach(listener))
+                    .catch(err => console.error(`Failed to replay state for job ${data.jobId}:`, err.message));
+            }
+        } catch (e) { console.error('Failed to parse WebSocket message:', message.toString()); }
+    });
+});
+
+// CORS_ORIGINS is a comma-separated allow-list; without it any origin may call the API (every request still needs a key).
+app.use(cors(process.env.CORS_ORIGINS ? { origin: process.env.CORS_ORIGINS.split(',').map(origin => origin.trim()) } : undefined));
+app.use(express.json());
+
+// API keys are sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`; the user is kept in res.locals for the routes.
+app.use('/api', async (req, res, next) => {
+    const header = req.headers.authorization;
+    const key = header?.startsWith('Bearer ') ? header.slice(7).trim() : req.header('x-api-key');
+    try {
+        const user = await authenticate(key);
+        if (!user) return res.status(401).json({ error: 'A valid API key is required.' });
+        res.locals.user = user;
+        next();
+    } catch (error) { res.status(500).json({ error: 'Failed to check the API key.' }); }
+});
+
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+    if (res.locals.user.role !== 'admin') return res.status(403).json({ error: 'Only administrators can manage users.' });
+    next();
+};
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+
+const MAX_RETRANSLATION_CUES = 50;
+const MAX_ALTERNATIVES = 5;
+
+// Everything a client may set on a job; the rest of the job data is derived by the server.
+const JOB_OPTION_KEYS = [
+    'tone', 'translationMode', 'thinkingMode', 'qaRetranslate', 'approveBlueprint', 'acceptEstimate', 'outputFormat', 'constraints',
+    'sourceLanguage', 'targetLanguages', 'glossaryIds', 'projectId', 'episode',
+];
+const TONES = ['Professional', 'Literary', 'Casual', 'Technical', 'Cinematic', 'Slang'];
+const DEFAULT_TONE = 'Professional';
+const TRANSLATION_MODES: TranslationMode[] = ['batch', 'line'];
+
+// The checks job options need before the file is read; shared by job creation and the estimate.
+function validateJobOptions(options: any): string | null {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) return 'options must be a JSON object.';
+    const unknown = Object.keys(options).find(key => !JOB_OPTION_KEYS.includes(key));
+    if (unknown) return `Unknown option "${unknown}". Expected some of: encoding, ${JOB_OPTION_KEYS.join(', ')}.`;
+    if (options.tone !== undefined && !TONES.includes(options.tone)) return `Unsupported tone. Expected one of: ${TONES.join(', ')}.`;
+    if (options.translationMode !== undefined && !TRANSLATION_MODES.includes(options.translationMode)) {
+        return `Unsupported translation mode. Expected one of: ${TRANSLATION_MODES.join(', ')}.`;
+    }
+    if (options.outputFormat && !SUBTITLE_FORMATS.includes(options.outputFormat)) return `Unsupported output format. Expected one of: ${SUBTITLE_FORMATS.join(', ')}.`;
+    const constraintError = validateConstraints(options.constraints);
+    if (constraintError) return constraintError;
+    if (options.sourceLanguage !== undefined && !isSupportedLanguage(options.sourceLanguage)) {
+        return `Unsupported source language. Expected one of: ${SUPPORTED_LANGUAGES.join(', ')}.`;
+    }
+    if (options.targetLanguages !== undefined) {
+        const targets = options.targetLanguages;
+        if (!Array.isArray(targets) || targets.length === 0 || !targets.every(isSupportedLanguage) || new Set(targets).size !== targets.length) {
+            return `targetLanguages must be a non-empty list of distinct codes from: ${SUPPORTED_LANGUAGES.join(', ')}.`;
+        }
+    }
+    for (const flag of ['thinkingMode', 'qaRetranslate', 'approveBlueprint', 'acceptEstimate']) {
+        if (options[flag] !== undefined && typeof options[flag] !== 'boolean') return `${flag} must be true or false.`;
+    }
+    return null;
+}
+
+const estimateSettings = (options: any) => ({ mode: options.translationMode ?? 'batch', thinkingMode: options.thinkingMode ?? false, qaRetranslate: options.qaRetranslate ?? false });
+
+app.post('/api/jobs', upload.fields([{ name: 'subtitleFile', maxCount: 1 }, { name: 'glossaryFile', maxCount: 1 }]), async (req, res) => {
+    const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+    if (!files.subtitleFile) return res.status(400).json({ error: 'Subtitle file is required.' });
+
+    try {
+        const subtitleFile = files.subtitleFile[0];
+        const { encoding: requestedEncoding, ...options } = JSON.parse(req.body.options);
+        const optionsError = validateJobOptions(options);
+        if (optionsError) return res.status(400).json({ error: optionsError });
+        let decoded;
+        try {
+            decoded = decodeSubtitleBuffer(subtitleFile.buffer, requestedEncoding);
+        } catch (error) {
+            return res.status(400).json({ error: `Unsupported encoding: ${requestedEncoding}.` });
+        }
+        const inputFormat = detectFormat(decoded.content, subtitleFile.originalname);
+        const { document, report } = parseSubtitles(decoded.content, inputFormat, decoded.encoding);
+        if (!report.valid) {
+            return res.status(422).json({ error: `Could not read ${inputFormat.toUpperCase()} file: ${report.errors[0].message}`, report });
+        }
+        const sourceLanguage = options.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE;
+        const targetLanguages: string[] = options.targetLanguages ?? DEFAULT_TARGET_LANGUAGES;
+        const { glossaryIds = [], acceptEstimate = false } = options;
+        if (!Array.isArray(glossaryIds) || !glossaryIds.every((id: unknown) => typeof id === 'string')) {
+            return res.status(400).json({ error: 'glossaryIds must be a list of glossary ids.' });
+        }
+        if (options.projectId !== undefined) {
+            if (typeof options.projectId !== 'string') return res.status(400).json({ error: 'projectId must be a project id.' });
+            const project = await getProject(options.projectId, res.locals.user);
+            if (!project) return res.status(400).json({ error: 'Project not found.' });
+            if (project.sourceLanguage !== sourceLanguage) {
+                return res.status(400).json({ error: `Project "${project.name}" is for ${project.sourceLanguage} scripts, not ${sourceLanguage}.` });
+            }
+        } else if (options.episode !== undefined) {
+            return res.status(400).json({ error: 'episode is only used with a projectId.' });
+        }
+        const episodeError = validateEpisodeLabel(options.episode);
+        if (episodeError) return res.status(400).json({ error: episodeError });
+
+        const glossaries = await getGlossaries(glossaryIds);
+        if (glossaries.length !== glossaryIds.length) return res.status(400).json({ error: 'One or more glossaries do not exist.' });
+        const mismatched = glossaries.find(glossary => glossary.sourceLanguage !== sourceLanguage || !targetLanguages.includes(glossary.targetLanguage));
+        if (mismatched) {
+            return res.status(400).json({ error: `Glossary "${mismatched.name}" is for ${mismatched.sourceLanguage} → ${mismatched.targetLanguage}, which this job does not translate.` });
+        }
+
+        let fileGlossary: ParsedGlossaryEntry[] = [];
+        if (files.glossaryFile) {
+            const glossaryFile = files.glossaryFile[0];
+            const content = glossaryFile.buffer.toString('utf-8');
+            try {
+                fileGlossary = parseGlossaryFile(content, detectGlossaryFormat(content, glossaryFile.originalname), { source: sourceLanguage, target: targetLanguages[0] });
+            } catch (error) {
+                if (error instanceof GlossaryFormatError) return res.status(400).json({ error: `Could not read the glossary file: ${error.message}` });
+                throw error;
+            }
+        }
+
+        const estimate = await estimateJob(document, targetLanguages, estimateSettings(options));
+        if (estimate.requiresApproval && !acceptEstimate) {
+            return res.status(409).json({
+                error: `This job is estimated to cost $${estimate.usage.total.cost.toFixed(2)}, more than the $${estimate.approvalThreshold} that jobs may cost without approval. Submit it again with acceptEstimate to start it.`,
+                estimate,
+            });
+        }
+
+        const quotaError = await consumeQuota(res.locals.user, 1, report.cueCount * targetLanguages.length);
+        if (quotaError) return res.status(429).json({ error: quotaError });
+
+        const job = await createTranslationJob({
+            tone: options.tone ?? DEFAULT_TONE,
+            translationMode: options.translationMode,
+            thinkingMode: options.thinkingMode ?? false,
+            qaRetranslate: options.qaRetranslate,
+            approveBlueprint: options.approveBlueprint,
+            outputFormat: options.outputFormat,
+            constraints: options.constraints,
+            sourceLanguage,
+            targetLanguages,
+            projectId: options.projectId,
+            episode: options.episode,
+            userGlossary: [...glossaryItems(glossaries), ...fileGlossary.map(({ term, translation, language }) => ({ term, translation, ...(language ? { language } : {}) }))],
+            glossaries: glossaryRefs(glossaries),
+            // Set last: these are what the server decoded, validated and priced.
+            subtitleContent: decoded.content,
+            inputFormat,
+            validation: report,
+            ownerId: res.locals.user.id,
+        });
+        res.status(202).json({ jobId: job.id, validation: report, estimate });
+    } catch (error) { res.status(500).json({ error: 'Failed to create job.' }); }
+});
+
+// Takes the same form as POST /api/jobs and predicts the job's token usage and cost without queuing anything.
+app.post('/api/jobs/estimate', upload.fields([{ name: 'subtitleFile', maxCount: 1 }, { name: 'glossaryFile', maxCount: 1 }]), async (req, res) => {
+    const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+    if (!files.subtitleFile) return res.status(400).json({ error: 'Subtitle file is required.' });
+
+    try {
+        const subtitleFile = files.subtitleFile[0];
+        const { encoding: requestedEncoding, ...options } = JSON.parse(req.body.options ?? '{}');
+        const optionsError = validateJobOptions(options);
+        if (optionsError) return res.status(400).json({ error: optionsError });
+        let decoded;
+        try {
+            decoded = decodeSubtitleBuffer(subtitleFile.buffer, requestedEncoding);
+        } catch (error) {
+            return res.status(400).json({ error: `Unsupported encoding: ${requestedEncoding}.` });
+        }
+        const inputFormat = detectFormat(decoded.content, subtitleFile.originalname);
+        const { document, report } = parseSubtitles(decoded.content, inputFormat, decoded.encoding);
+        if (!report.valid) {
+            return res.status(422).json({ error: `Could not read ${inputFormat.toUpperCase()} file: ${report.errors[0].message}`, report });
+        }
+        res.json(await estimateJob(document, options.targetLanguages ?? DEFAULT_TARGET_LANGUAGES, estimateSettings(options)));
+    } catch (error) { res.status(500).json({ error: 'Failed to estimate job.' }); }
+});
+
+app.get('/api/me', async (req, res) => {
+    try {
+        res.json({ user: res.locals.user, usage: await getUsage(res.locals.user) });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch usage.' }); }
+});
+
+app.get('/api/users', requireAdmin, async (req, res) => {
+    try {
+        res.json({ users: await listUsers() });
+    } catch (error) { res.status(500).json({ error: 'Failed to list users.' }); }
+});
+
+// The response is the only time the new key is shown.
+app.post('/api/users', requireAdmin, async (req, res) => {
+    const inputError = validateUserInput(req.body);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        res.status(201).json(await createUser(req.body));
+    } catch (error) {
+        if (error instanceof UserConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to create user.' });
+    }
+});
+
+app.patch('/api/users/:id', requireAdmin, async (req, res) => {
+    const inputError = validateUserInput(req.body, true);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        const user = await updateUser(req.params.id, req.body);
+        if (!user) return res.status(404).json({ error: 'User not found.' });
+        res.json(user);
+    } catch (error) {
+        if (error instanceof UserConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to update user.' });
+    }
+});
+
+app.delete('/api/users/:id', requireAdmin, async (req, res) => {
+    try {
+        if (!(await deleteUser(req.params.id))) return res.status(404).json({ error: 'User not found.' });
+        res.status(204).end();
+    } catch (error) { res.status(500).json({ error: 'Failed to delete user.' }); }
+});
+
+app.post('/api/users/:id/key', requireAdmin, async (req, res) => {
+    try {
+        const issued = await rotateKey(req.params.id);
+        if (!issued) return res.status(404).json({ error: 'User not found.' });
+        res.json(issued);
+    } catch (error) { res.status(500).json({ error: 'Failed to issue a new key.' }); }
+});
+
+app.get('/api/languages', (req, res) => {
+    res.json({ languages: listLanguages() });
+});
+
+app.get('/api/jobs', async (req, res) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 100);
+    try {
+        res.json({ jobs: await listJobs(limit, res.locals.user) });
+    } catch (error) { res.status(500).json({ error: 'Failed to list jobs.' }); }
+});
+
+app.get('/api/jobs/:id', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        const summary = describeJob(job, await job.getState());
+        const blueprints = jobBlueprints(job);
+        res.json({
+            ...summary,
+            blueprints,
+            // Deprecated: the first target's blueprint, for clients from before jobs had several targets.
+            blueprint: blueprints?.[summary.targetLanguages[0]] ?? null,
+            validation: job.data.validation ?? null,
+            glossaries: job.data.glossaries ?? [],
+        });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch job.' }); }
+});
+
+app.get('/api/jobs/:id/result', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, req.query.language as string | undefined);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const format = job.returnvalue.format ?? 'srt';
+        res.setHeader('Content-Type', `${mimeTypeFor(format)}; charset=utf-8`);
+        res.setHeader('Content-Disposition', `attachment; filename="translation-${job.id}.${translation.language}.${format}"`);
+        res.send(translation.result);
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch job result.' }); }
+});
+
+// Token usage and cost so far, per stage and model; retranslations after the job are counted under 'retranslation'.
+app.get('/api/jobs/:id/usage', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        res.json(summarizeUsage(await listUsage(job.id!)));
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch job usage.' }); }
+});
+
+app.get('/api/jobs/:id/compliance', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, req.query.language as string | undefined);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        res.json(translation.compliance ?? null);
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch compliance report.' }); }
+});
+
+app.put('/api/jobs/:id/blueprints', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        const targetLanguages = job.data.targetLanguages ?? DEFAULT_TARGET_LANGUAGES;
+        const blueprints = req.body?.blueprints;
+        const blueprintError = validateBlueprintSet(blueprints, targetLanguages);
+        if (blueprintError) return res.status(400).json({ error: blueprintError });
+        if (!(await approveBlueprints(job, normalizeBlueprintSet(blueprints, targetLanguages)))) {
+            return res.status(409).json({ error: 'Job is not waiting for blueprint approval.' });
+        }
+        res.status(202).json({ message: 'Blueprint approved; translation resumed.' });
+    } catch (error) { res.status(500).json({ error: 'Failed to approve blueprint.' }); }
+});
+
+app.get('/api/jobs/:id/qa', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, req.query.language as string | undefined);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        res.json(translation.qa ?? null);
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch QA report.' }); }
+});
+
+app.delete('/api/jobs/:id', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await cancelJob(job))) return res.status(409).json({ error: 'Job has already finished.' });
+        res.status(202).json({ message: 'Job cancellation requested.' });
+    } catch (error) { res.status(500).json({ error: 'Failed to cancel job.' }); }
+});
+
+app.post('/api/jobs/:id/resume', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await resumeJob(job))) return res.status(409).json({ error: 'Only failed or cancelled jobs can be resumed.' });
+        res.status(202).json({ message: 'Job resumed.' });
+    } catch (error) { res.status(500).json({ error: 'Failed to resume job.' }); }
+});
+
+app.post('/api/corrections', async (req, res) => {
+    const { jobId, language, userCorrection, cues, approvedSequences } = req.body ?? {};
+    if (typeof jobId !== 'string' || !jobId) return res.status(400).json({ error: 'jobId is required.' });
+    if (cues === undefined && (typeof userCorrection !== 'string' || !userCorrection.trim())) {
+        return res.status(400).json({ error: 'Send either userCorrection (the edited subtitle file as text) or cues.' });
+    }
+    if (cues !== undefined && (!Array.isArray(cues) || !cues.every((cue: any) => Number.isInteger(cue?.sequence) && typeof cue.text === 'string'))) {
+        return res.status(400).json({ error: 'cues must be a list of { sequence, text } objects.' });
+    }
+    if (approvedSequences !== undefined && (!Array.isArray(approvedSequences) || !approvedSequences.every(Number.isInteger))) {
+        return res.status(400).json({ error: 'approvedSequences must be a list of cue sequences.' });
+    }
+    if (language !== undefined && !isSupportedLanguage(language)) return res.status(400).json({ error: 'Unsupported language.' });
+    try {
+        const job = await getJob(jobId, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, language);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+
+        const edited = cues ? rebuildTranslation(job, translation.language, new Map(cues.map((cue: { sequence: number, text: string }) => [cue.sequence, cue.text]))) : userCorrection;
+        const review = await applyReview(job, translation.language, edited, approvedSequences);
+        if (!review.report.valid) return res.status(422).json({ error: `Could not read the edited file: ${review.report.errors[0].message}`, report: review.report });
+        // `result` is the stored output with the edits, which /result and /export now serve.
+        res.status(201).json({ message: 'Corrections saved successfully.', corrections: review.corrections.length, learnedSegments: review.learnedSegments, result: review.translation.result });
+    } catch (error) {
+        if (error instanceof RevisionConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to save correction.' });
+    }
+});
+
+app.get('/api/jobs/:id/cues', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, req.query.language as string | undefined);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const critiques = await listCritiques(job.id!, translation.language);
+        res.json({ language: translation.language, constraints: resolveConstraints(job.data.constraints), cues: reviewCues(job, translation.language, critiques) });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch cues.' }); }
+});
+
+app.post('/api/jobs/:id/cues/:sequence/retranslate', async (req, res) => {
+    const { language, instruction } = req.body ?? {};
+    if (language !== undefined && !isSupportedLanguage(language)) return res.status(400).json({ error: 'Unsupported language.' });
+    if (instruction !== undefined && (typeof instruction !== 'string' || instruction.length > 500)) {
+        return res.status(400).json({ error: 'instruction must be a string of at most 500 characters.' });
+    }
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, language);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const quotaError = await consumeQuota(res.locals.user, 0, 1);
+        if (quotaError) return res.status(429).json({ error: quotaError });
+        const cue = await retranslateCue(job, translation.language, Number(req.params.sequence), instruction?.trim() || undefined);
+        if (!cue) return res.status(404).json({ error: 'Cue not found.' });
+        res.json(cue);
+    } catch (error) { res.status(500).json({ error: 'Failed to retranslate cue.' }); }
+});
+
+// Proposes alternatives for a list of cues (`sequences`) or an inclusive range (`from`, `to`); the stored result is untouched.
+app.post('/api/jobs/:id/retranslations', async (req, res) => {
+    const { language, sequences, from, to, instruction, tier, alternatives = 3 } = req.body ?? {};
+    if (language !== undefined && !isSupportedLanguage(language)) return res.status(400).json({ error: 'Unsupported language.' });
+    if (sequences !== undefined && (!Array.isArray(sequences) || !sequences.every(Number.isInteger))) {
+        return res.status(400).json({ error: 'sequences must be a list of cue sequences.' });
+    }
+    if ((from !== undefined || to !== undefined) && !(Number.isInteger(from) && Number.isInteger(to) && from <= to)) {
+        return res.status(400).json({ error: 'from and to must be cue sequences with from <= to.' });
+    }
+    if (sequences === undefined && from === undefined) return res.status(400).json({ error: 'Send sequences or a from/to range.' });
+    if (instruction !== undefined && (typeof instruction !== 'string' || instruction.length > 500)) {
+        return res.status(400).json({ error: 'instruction must be a string of at most 500 characters.' });
+    }
+    if (tier !== undefined && tier !== 'flash' && tier !== 'pro') return res.status(400).json({ error: 'tier must be "flash" or "pro".' });
+    if (!Number.isInteger(alternatives) || alternatives < 1 || alternatives > MAX_ALTERNATIVES) {
+        return res.status(400).json({ error: `alternatives must be between 1 and ${MAX_ALTERNATIVES}.` });
+    }
+    const requested: number[] = [...(sequences ?? []), ...(from !== undefined ? Array.from({ length: to - from + 1 }, (_, i) => from + i) : [])]
+        .filter((sequence, i, all) => all.indexOf(sequence) === i);
+    if (requested.length > MAX_RETRANSLATION_CUES) return res.status(400).json({ error: `At most ${MAX_RETRANSLATION_CUES} cues can be retranslated at once.` });
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, language);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const quotaError = await consumeQuota(res.locals.user, 0, requested.length);
+        if (quotaError) return res.status(429).json({ error: quotaError });
+        const cues = await proposeRetranslations(job, translation.language, requested, { alternatives, tier, instruction: instruction?.trim() || undefined });
+        if (!cues) return res.status(409).json({ error: 'The job has no blueprint for that language.' });
+        if (cues.length === 0) return res.status(404).json({ error: 'None of the requested cues exist.' });
+        res.json({ language: translation.language, cues });
+    } catch (error) { res.status(500).json({ error: 'Failed to retranslate cues.' }); }
+});
+
+// Stores the chosen texts as the job's result for the language and returns the updated translation with fresh reports.
+// A cue's `tier` is that of the alternative it came from; cues without one count as written by hand.
+app.post('/api/jobs/:id/retranslations/accept', async (req, res) => {
+    const { language, cues } = req.body ?? {};
+    if (language !== undefined && !isSupportedLanguage(language)) return res.status(400).json({ error: 'Unsupported language.' });
+    if (!Array.isArray(cues) || cues.length === 0 || !cues.every((cue: any) => Number.isInteger(cue?.sequence) && typeof cue.text === 'string' && cue.text.trim())) {
+        return res.status(400).json({ error: 'cues must be a non-empty list of { sequence, text } objects.' });
+    }
+    if (!cues.every((cue: any) => cue.tier === undefined || cue.tier === 'flash' || cue.tier === 'pro')) {
+        return res.status(400).json({ error: 'tier must be "flash" or "pro".' });
+    }
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, language);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const known = new Set(reviewCues(job, translation.language).map(cue => cue.sequence));
+        const unknown = cues.find((cue: { sequence: number }) => !known.has(cue.sequence));
+        if (unknown) return res.status(404).json({ error: `Cue ${unknown.sequence} not found.` });
+        const revision = await acceptRetranslations(
+            job, translation.language,
+            new Map(cues.map((cue: { sequence: number, text: string }) => [cue.sequence, cue.text])),
+            new Map(cues.map((cue: { sequence: number, tier?: ModelTier }) => [cue.sequence, cue.tier ?? 'human']))
+        );
+        res.json(revision);
+    } catch (error) {
+        if (error instanceof RevisionConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to store the retranslations.' });
+    }
+});
+
+// Bilingual subtitles, a CSV/XLSX review sheet or XLIFF 2.0 for CAT tools, built from the current output of one target.
+app.get('/api/jobs/:id/export', async (req, res) => {
+    const format = req.query.format as DeliverableFormat;
+    if (!DELIVERABLE_FORMATS.includes(format)) return res.status(400).json({ error: `Unsupported export format. Expected one of: ${DELIVERABLE_FORMATS.join(', ')}.` });
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const translation = targetResult(job, req.query.language as string | undefined);
+        if (!translation) return res.status(404).json({ error: 'Job has no translation in that language.' });
+        const { extension, mimeType } = deliverableFile(format);
+        res.setHeader('Content-Type', mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="translation-${job.id}.${translation.language}.${extension}"`);
+        res.send(await exportTranslation(job, translation.language, format));
+    } catch (error) { res.status(500).json({ error: 'Failed to export translation.' }); }
+});
+
+// Merges the targets of an exported XLIFF file back into the job; with ?dryRun=true only the changes are listed.
+app.post('/api/jobs/:id/xliff', upload.single('xliffFile'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'XLIFF file is required.' });
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        if (!(await job.isCompleted())) return res.status(409).json({ error: 'Job has not completed yet.' });
+        const merge = await importXliff(job, req.file.buffer.toString('utf-8'), req.query.dryRun === 'true');
+        if (!merge) return res.status(404).json({ error: 'Job has no translation in the target language of the file.' });
+        res.json(merge);
+    } catch (error) {
+        if (error instanceof DeliverableFormatError) return res.status(400).json({ error: `Could not read the XLIFF file: ${error.message}` });
+        if (error instanceof RevisionConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to import XLIFF.' });
+    }
+});
+
+app.get('/api/jobs/:id/corrections', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        res.json({ corrections: await listCorrections(job.id!) });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch corrections.' }); }
+});
+
+// Thinking mode's notes on every line it refined, so reviewers can see why a line differs from its first draft.
+app.get('/api/jobs/:id/critiques', async (req, res) => {
+    const language = req.query.language as string | undefined;
+    if (language !== undefined && !isSupportedLanguage(language)) return res.status(400).json({ error: 'Unsupported language.' });
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        res.json({ thinkingMode: !!job.data.thinkingMode, critiques: await listCritiques(job.id!, language) });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch critiques.' }); }
+});
+
+app.get('/api/jobs/:id/glossary-suggestions', async (req, res) => {
+    try {
+        const job = await getJob(req.params.id, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        const blueprints = jobBlueprints(job);
+        if (!blueprints) return res.status(409).json({ error: 'Job has no blueprint yet.' });
+        const targetLanguages = job.data.targetLanguages ?? DEFAULT_TARGET_LANGUAGES;
+        res.json({ suggestions: suggestTerms(blueprints, job.data.userGlossary, targetLanguages) });
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch glossary suggestions.' }); }
+});
+
+app.get('/api/projects', async (req, res) => {
+    try {
+        res.json({ projects: await listProjects(res.locals.user) });
+    } catch (error) { res.status(500).json({ error: 'Failed to list projects.' }); }
+});
+
+app.post('/api/projects', async (req, res) => {
+    const inputError = validateProjectInput(req.body);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        res.status(201).json(await createProject(req.body, res.locals.user));
+    } catch (error) {
+        if (error instanceof ProjectConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to create project.' });
+    }
+});
+
+app.get('/api/projects/:id', async (req, res) => {
+    try {
+        const project = await getProject(req.params.id, res.locals.user);
+        if (!project) return res.status(404).json({ error: 'Project not found.' });
+        res.json(project);
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch project.' }); }
+});
+
+app.patch('/api/projects/:id', async (req, res) => {
+    const inputError = validateProjectInput(req.body, true);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        const project = await updateProject(req.params.id, req.body, res.locals.user);
+        if (!project) return res.status(404).json({ error: 'Project not found.' });
+        res.json(project);
+    } catch (error) {
+        if (error instanceof ProjectConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to update project.' });
+    }
+});
+
+app.delete('/api/projects/:id', async (req, res) => {
+    try {
+        if (!(await deleteProject(req.params.id, res.locals.user))) return res.status(404).json({ error: 'Project not found.' });
+        res.status(204).end();
+    } catch (error) { res.status(500).json({ error: 'Failed to delete project.' }); }
+});
+
+// The episodes recorded for a project, oldest first, each with the characters, terms and nuances it added.
+app.get('/api/projects/:id/episodes', async (req, res) => {
+    try {
+        if (!(await getProject(req.params.id, res.locals.user))) return res.status(404).json({ error: 'Project not found.' });
+        res.json({ episodes: await listEpisodes(req.params.id) });
+    } catch (error) { res.status(500).json({ error: 'Failed to list episodes.' }); }
+});
+
+app.get('/api/glossaries', async (req, res) => {
+    try {
+        res.json({ glossaries: await listGlossaries() });
+    } catch (error) { res.status(500).json({ error: 'Failed to list glossaries.' }); }
+});
+
+app.post('/api/glossaries', async (req, res) => {
+    const inputError = validateGlossaryInput(req.body);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        const entries = req.body.entries === undefined ? [] : normalizeEntries(req.body.entries);
+        res.status(201).json(await createGlossary(req.body, entries));
+    } catch (error) {
+        if (error instanceof GlossaryFormatError) return res.status(400).json({ error: error.message });
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to create glossary.' });
+    }
+});
+
+app.get('/api/glossaries/:id', async (req, res) => {
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && !(Number.isInteger(version) && version > 0)) return res.status(400).json({ error: 'version must be a positive integer.' });
+    try {
+        const glossary = await getGlossary(req.params.id, version);
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        res.json(glossary);
+    } catch (error) { res.status(500).json({ error: 'Failed to fetch glossary.' }); }
+});
+
+app.patch('/api/glossaries/:id', async (req, res) => {
+    const inputError = validateGlossaryInput(req.body, true);
+    if (inputError) return res.status(400).json({ error: inputError });
+    try {
+        const glossary = await updateGlossary(req.params.id, req.body);
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        res.json(glossary);
+    } catch (error) {
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to update glossary.' });
+    }
+});
+
+app.delete('/api/glossaries/:id', async (req, res) => {
+    try {
+        if (!(await deleteGlossary(req.params.id))) return res.status(404).json({ error: 'Glossary not found.' });
+        res.status(204).end();
+    } catch (error) { res.status(500).json({ error: 'Failed to delete glossary.' }); }
+});
+
+app.post('/api/glossaries/:id/entries', async (req, res) => {
+    try {
+        const glossary = await addEntries(req.params.id, normalizeEntries(req.body));
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        res.status(201).json(glossary);
+    } catch (error) {
+        if (error instanceof GlossaryFormatError) return res.status(400).json({ error: error.message });
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to add glossary entries.' });
+    }
+});
+
+app.patch('/api/glossaries/:id/entries/:entryId', async (req, res) => {
+    const { term, translation, note } = req.body ?? {};
+    const invalid = [term, translation].some(value => value !== undefined && (typeof value !== 'string' || !value.trim())) || (note !== undefined && typeof note !== 'string');
+    if (invalid) return res.status(400).json({ error: 'term and translation must be non-empty strings and note a string.' });
+    const changes = {
+        ...(term !== undefined ? { term: term.trim() } : {}),
+        ...(translation !== undefined ? { translation: translation.trim() } : {}),
+        ...(note !== undefined ? { note: note.trim() || undefined } : {}),
+    };
+    try {
+        const glossary = await updateEntry(req.params.id, req.params.entryId, changes);
+        if (!glossary) return res.status(404).json({ error: 'Glossary entry not found.' });
+        res.json(glossary);
+    } catch (error) {
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to update glossary entry.' });
+    }
+});
+
+app.delete('/api/glossaries/:id/entries/:entryId', async (req, res) => {
+    try {
+        const glossary = await removeEntry(req.params.id, req.params.entryId);
+        if (!glossary) return res.status(404).json({ error: 'Glossary entry not found.' });
+        res.json(glossary);
+    } catch (error) {
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to delete glossary entry.' });
+    }
+});
+
+app.post('/api/glossaries/:id/import', upload.single('glossaryFile'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'Glossary file is required.' });
+    const mode = req.query.mode ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') return res.status(400).json({ error: 'mode must be merge or replace.' });
+    try {
+        const existing = await getGlossary(req.params.id);
+        if (!existing) return res.status(404).json({ error: 'Glossary not found.' });
+        const content = req.file.buffer.toString('utf-8');
+        const entries = parseGlossaryFile(content, detectGlossaryFormat(content, req.file.originalname), { source: existing.sourceLanguage, target: existing.targetLanguage });
+        const glossary = await addEntries(req.params.id, entries, mode);
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        res.json({ ...glossary, imported: entries.length });
+    } catch (error) {
+        if (error instanceof GlossaryFormatError) return res.status(400).json({ error: `Could not read the glossary file: ${error.message}` });
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to import glossary.' });
+    }
+});
+
+app.get('/api/glossaries/:id/export', async (req, res) => {
+    const format = (req.query.format ?? 'json') as GlossaryFileFormat;
+    if (!GLOSSARY_FORMATS.includes(format)) return res.status(400).json({ error: `Unsupported export format. Expected one of: ${GLOSSARY_FORMATS.join(', ')}.` });
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && !(Number.isInteger(version) && version > 0)) return res.status(400).json({ error: 'version must be a positive integer.' });
+    try {
+        const glossary = await getGlossary(req.params.id, version);
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        const fileName = `${glossary.name.replace(/[^\w.-]+/g, '_')}.v${glossary.version}.${format}`;
+        res.setHeader('Content-Type', `${glossaryMimeType(format)}; charset=utf-8`);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.send(serializeGlossary(glossary.entries, format, glossary));
+    } catch (error) { res.status(500).json({ error: 'Failed to export glossary.' }); }
+});
+
+app.post('/api/glossaries/:id/promote', async (req, res) => {
+    const { jobId, terms } = req.body ?? {};
+    if (typeof jobId !== 'string' || !jobId) return res.status(400).json({ error: 'jobId is required.' });
+    if (!Array.isArray(terms) || terms.length === 0 || !terms.every(term => typeof term === 'string')) {
+        return res.status(400).json({ error: 'terms must be a non-empty list of blueprint terms.' });
+    }
+    try {
+        const glossary = await getGlossary(req.params.id);
+        if (!glossary) return res.status(404).json({ error: 'Glossary not found.' });
+        const job = await getJob(jobId, res.locals.user);
+        if (!job) return res.status(404).json({ error: 'Job not found.' });
+        const blueprints = jobBlueprints(job);
+        if (!blueprints) return res.status(409).json({ error: 'Job has no blueprint yet.' });
+        if ((job.data.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE) !== glossary.sourceLanguage) {
+            return res.status(400).json({ error: 'The job and the glossary have different source languages.' });
+        }
+
+        const suggestions = suggestTerms(blueprints, job.data.userGlossary, job.data.targetLanguages ?? DEFAULT_TARGET_LANGUAGES)
+            .filter(suggestion => suggestion.language === glossary.targetLanguage);
+        const bySuggestedTerm = new Map(suggestions.map(suggestion => [suggestion.term, suggestion]));
+        const unknown = terms.filter(term => !bySuggestedTerm.has(term));
+        if (unknown.length > 0) return res.status(400).json({ error: `Not suggested by this job for ${glossary.targetLanguage}: ${unknown.join(', ')}.` });
+
+        const promoted = await addEntries(glossary.id, terms.map(term => {
+            const { translation, definition } = bySuggestedTerm.get(term)!;
+            return { term, translation, ...(definition ? { note: definition } : {}) };
+        }));
+        if (!promoted) return res.status(404).json({ error: 'Glossary not found.' });
+        res.json(promoted);
+    } catch (error) {
+        if (error instanceof GlossaryConflictError) return res.status(409).json({ error: error.message });
+        res.status(500).json({ error: 'Failed to promote glossary terms.' });
+    }
+});
+
+server.listen(port, () => {
+    console.log(`Enterprise server with WebSocket listening on port ${port}`);
+});
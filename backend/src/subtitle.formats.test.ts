@@ -0,0 +1,233 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeSubtitleBuffer, detectFormat, msToTimestamp, parseSubtitles, serializeSubtitles, timestampToMs } from './subtitle.formats';
+import { SrtLine } from './types';
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+// What the model returns: the cue's placeholder text, here with a prefix.
+const translate = (lines: SrtLine[]) => lines.map(line => ({ ...line, translatedText: `T: ${line.markup?.source ?? line.text}` }));
+
+describe('SRT parsing', () => {
+    it('reads a well-formed file without warnings', () => {
+        const { document, report } = parseSubtitles('1\r\n00:00:01,000 --> 00:00:02,500\r\nHello.\r\nTwo lines.\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye.\r\n', 'srt');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(report.warnings, []);
+        assert.deepEqual(document.lines.map(line => [line.sequence, line.startTime, line.endTime, line.text]), [
+            [1, '00:00:01,000', '00:00:02,500', 'Hello.\nTwo lines.'],
+            [2, '00:00:03,000', '00:00:04,000', 'Bye.'],
+        ]);
+        assert.equal(document.lines[0].duration, 1.5);
+    });
+
+    it('keeps every text line of cues written without ids or blank lines', () => {
+        const { document, report } = parseSubtitles([
+            '00:00:01,000 --> 00:00:02,000', 'First line.', 'Last line of the first cue.',
+            '00:00:03,000 --> 00:00:04,000', 'Second cue.',
+        ].join('\n'), 'srt');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(document.lines.map(line => line.text), ['First line.\nLast line of the first cue.', 'Second cue.']);
+        assert.deepEqual(codes(report.warnings), ['renumbered']);
+    });
+
+    it('takes a number above a timing line as the next cue id even without a blank line', () => {
+        const { document } = parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\nHello.\n2\n00:00:03,000 --> 00:00:04,000\nBye.\n', 'srt');
+
+        assert.deepEqual(document.lines.map(line => [line.sequence, line.text]), [[1, 'Hello.'], [2, 'Bye.']]);
+    });
+
+    it('rejects the file when a timing cannot be read', () => {
+        const { document, report } = parseSubtitles('1\n00:00:01,000 --> soon\nHello.\n\n2\n00:00:03,000 --> 00:00:04,000\nBye.\n', 'srt');
+
+        assert.equal(report.valid, false);
+        assert.deepEqual(codes(report.errors), ['invalid_timestamp']);
+        assert.equal(report.errors[0].line, 2);
+        assert.equal(document.lines.length, 1);
+    });
+
+    it('repairs cues that end at or before they start', () => {
+        const { document, report } = parseSubtitles('1\n00:00:05,000 --> 00:00:04,000\nBackwards.\n', 'srt');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(codes(report.warnings), ['non_positive_duration']);
+        assert.deepEqual([document.lines[0].startTime, document.lines[0].endTime], ['00:00:05,000', '00:00:06,000']);
+    });
+
+    it('sorts out-of-order cues, renumbers them and reports overlaps', () => {
+        const { document, report } = parseSubtitles([
+            '1', '00:00:05,000 --> 00:00:06,000', 'Later.', '',
+            '2', '00:00:01,000 --> 00:00:05,500', 'Earlier.', '',
+        ].join('\n'), 'srt');
+
+        assert.deepEqual(document.lines.map(line => [line.sequence, line.text]), [[1, 'Earlier.'], [2, 'Later.']]);
+        assert.deepEqual(codes(report.warnings).sort(), ['out_of_order', 'overlap', 'renumbered']);
+    });
+
+    it('warns about empty cues and text outside any cue', () => {
+        const { report } = parseSubtitles('Stray text\n\n1\n00:00:01,000 --> 00:00:02,000\n\n', 'srt');
+
+        assert.deepEqual(codes(report.warnings).sort(), ['empty_text', 'orphan_text']);
+    });
+
+    it('reports a file without cues', () => {
+        const { report } = parseSubtitles('Nothing to see here.\n', 'srt');
+
+        assert.equal(report.valid, false);
+        assert.ok(codes(report.errors).includes('no_cues'));
+    });
+
+    it('writes translated cues back with their timings', () => {
+        const { document } = parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\n<i>Hello.</i>\n', 'srt');
+
+        assert.equal(serializeSubtitles(document, translate(document.lines)), '1\n00:00:01,000 --> 00:00:02,000\nT: <i>Hello.</i>\n');
+    });
+});
+
+describe('WebVTT', () => {
+    const VTT = [
+        'WEBVTT - Episode 1', '', 'STYLE', '::cue { color: yellow }', '',
+        'intro', '00:00:01.000 --> 00:00:02.500 align:start line:10%', 'Hello, <b>world</b>.', '',
+        'NOTE a comment between cues', '',
+        '00:01:00.000 --> 00:01:02.000', 'Second cue', 'on two lines.', '',
+    ].join('\n');
+
+    it('reads cues, identifiers, settings and the header blocks', () => {
+        const { document, report } = parseSubtitles(VTT, 'vtt');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(report.warnings, []);
+        assert.equal(document.header, 'WEBVTT - Episode 1\n\nSTYLE\n::cue { color: yellow }');
+        assert.deepEqual(document.lines.map(line => [line.startTime, line.endTime, line.text]), [
+            ['00:00:01,000', '00:00:02,500', 'Hello, world.'],
+            ['00:01:00,000', '00:01:02,000', 'Second cue\non two lines.'],
+        ]);
+        assert.deepEqual(document.lines[0].cue, { identifier: 'intro', settings: 'align:start line:10%' });
+    });
+
+    it('writes identifiers, settings, markup and the original header back', () => {
+        const { document } = parseSubtitles(VTT, 'vtt');
+
+        assert.equal(serializeSubtitles(document, translate(document.lines)), [
+            'WEBVTT - Episode 1', '', 'STYLE', '::cue { color: yellow }', '',
+            'intro', '00:00:01.000 --> 00:00:02.500 align:start line:10%', 'T: Hello, <b>world</b>.', '',
+            '00:01:00.000 --> 00:01:02.000', 'T: Second cue\non two lines.', '',
+        ].join('\n'));
+    });
+
+    it('accepts cues without hours and warns about a missing header', () => {
+        const { document, report } = parseSubtitles('00:01.000 --> 00:02.000\nShort.\n', 'vtt');
+
+        assert.deepEqual(codes(report.warnings), ['missing_header']);
+        assert.deepEqual([document.lines[0].startTime, document.lines[0].endTime], ['00:00:01,000', '00:00:02,000']);
+    });
+});
+
+describe('ASS/SSA', () => {
+    const ASS = [
+        '[Script Info]', 'Title: Test', '', '[V4+ Styles]', 'Style: Sign,Arial,20', '',
+        '[Events]', 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        'Dialogue: 0,0:00:01.00,0:00:02.50,Sign,Ali,0,0,0,,Well, {\\i1}this{\\i0} works.\\NSecond line',
+        'Comment: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Not shown',
+        'Dialogue: 1,0:00:05.00,0:00:06.00,Default,,10,10,10,,Hard\\hspace',
+    ].join('\n');
+
+    it('reads dialogue fields, keeping commas in the text and turning \\N into line breaks', () => {
+        const { document, report } = parseSubtitles(ASS, 'ass');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(document.lines.map(line => [line.startTime, line.endTime, line.text]), [
+            ['00:00:01,000', '00:00:02,500', 'Well, this works.\nSecond line'],
+            ['00:00:05,000', '00:00:06,000', 'Hard space'],
+        ]);
+        assert.equal(document.lines[0].cue?.style, 'Sign');
+        assert.equal(document.lines[0].cue?.assFields?.name, 'Ali');
+    });
+
+    it('writes the events back under the original header with their fields and override tags', () => {
+        const { document } = parseSubtitles(ASS, 'ass');
+        const output = serializeSubtitles(document, translate(document.lines));
+
+        assert.ok(output.startsWith('[Script Info]\nTitle: Test'));
+        assert.match(output, /^Dialogue: 0,0:00:01\.00,0:00:02\.50,Sign,Ali,0,0,0,,T: Well, \{\\i1\}this\{\\i0\} works\.\\NSecond line$/m);
+        assert.match(output, /^Dialogue: 1,0:00:05\.00,0:00:06\.00,Default,,10,10,10,,T: Hard space$/m);
+    });
+
+    it('uses a default header when another format is written as ASS', () => {
+        const { document } = parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\nOne\ntwo\n', 'srt');
+        const output = serializeSubtitles(document, translate(document.lines), 'ass');
+
+        assert.match(output, /^\[Script Info\]/);
+        assert.match(output, /^Dialogue: 0,0:00:01\.00,0:00:02\.00,Default,,0,0,0,,T: One\\Ntwo$/m);
+    });
+
+    it('rejects a file without an [Events] section', () => {
+        const { report } = parseSubtitles('[Script Info]\nTitle: Empty\n', 'ass');
+
+        assert.equal(report.valid, false);
+        assert.deepEqual(codes(report.errors), ['missing_events']);
+    });
+});
+
+describe('SBV', () => {
+    it('reads and writes cues', () => {
+        const { document, report } = parseSubtitles('0:00:01.000,0:00:02.000\nHello.\n\n0:00:03.500,0:00:04.000\nBye.\n', 'sbv');
+
+        assert.equal(report.valid, true);
+        assert.deepEqual(document.lines.map(line => [line.startTime, line.endTime, line.text]), [
+            ['00:00:01,000', '00:00:02,000', 'Hello.'],
+            ['00:00:03,500', '00:00:04,000', 'Bye.'],
+        ]);
+        assert.equal(serializeSubtitles(document, translate(document.lines)), '0:00:01.000,0:00:02.000\nT: Hello.\n\n0:00:03.500,0:00:04.000\nT: Bye.\n');
+    });
+
+    it('ignores blocks without a timing line', () => {
+        const { document, report } = parseSubtitles('Just text\n\n0:00:01.000,0:00:02.000\nHello.\n', 'sbv');
+
+        assert.equal(document.lines.length, 1);
+        assert.deepEqual(codes(report.warnings), ['orphan_text']);
+    });
+});
+
+describe('format detection and timestamps', () => {
+    it('prefers the file extension and sniffs the content otherwise', () => {
+        assert.equal(detectFormat('anything', 'movie.SSA'), 'ass');
+        assert.equal(detectFormat('1\n00:00:01,000 --> 00:00:02,000\nHi', 'movie.vtt'), 'vtt');
+        assert.equal(detectFormat('\uFEFFWEBVTT\n\n00:01.000 --> 00:02.000\nHi'), 'vtt');
+        assert.equal(detectFormat('[Script Info]\nTitle: x'), 'ass');
+        assert.equal(detectFormat('0:00:01.000,0:00:02.000\nHi'), 'sbv');
+        assert.equal(detectFormat('1\n00:00:01,000 --> 00:00:02,000\nHi'), 'srt');
+    });
+
+    it('converts timestamps between the formats', () => {
+        assert.equal(timestampToMs('01:02:03,004'), 3723004);
+        assert.equal(timestampToMs('1:02:03.4'), 3723400);
+        assert.ok(isNaN(timestampToMs('soon')));
+        assert.equal(msToTimestamp(3723004, 'srt'), '01:02:03,004');
+        assert.equal(msToTimestamp(3723004, 'vtt'), '01:02:03.004');
+        assert.equal(msToTimestamp(3723004, 'ass'), '1:02:03.00');
+        assert.equal(msToTimestamp(3723004, 'sbv'), '1:02:03.004');
+    });
+});
+
+describe('decodeSubtitleBuffer', () => {
+    it('strips a UTF-8 byte order mark', () => {
+        assert.deepEqual(decodeSubtitleBuffer(Buffer.from('\uFEFFسلام', 'utf-8')), { content: 'سلام', encoding: 'utf-8' });
+    });
+
+    it('reads UTF-16 files by their byte order mark', () => {
+        const little = Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from('Hi', 'utf16le')]);
+        const big = Buffer.from([0xFE, 0xFF, 0x00, 0x48, 0x00, 0x69]);
+
+        assert.deepEqual(decodeSubtitleBuffer(little), { content: 'Hi', encoding: 'utf-16le' });
+        assert.deepEqual(decodeSubtitleBuffer(big), { content: 'Hi', encoding: 'utf-16be' });
+    });
+
+    it('falls back to Windows-1256 when the bytes are not valid UTF-8', () => {
+        assert.deepEqual(decodeSubtitleBuffer(Buffer.from([0xC7, 0xE1])), { content: 'ال', encoding: 'windows-1256' });
+    });
+
+    it('uses the requested fallback encoding', () => {
+        assert.deepEqual(decodeSubtitleBuffer(Buffer.from([0x63, 0x61, 0x66, 0xE9]), 'latin1'), { content: 'café', encoding: 'latin1' });
+    });
+});
@@ -0,0 +1,366 @@
+import { CueMeta, SrtLine, SubtitleDocument, SubtitleFormat, TranslatedSrtLine, ValidationIssue, ValidationReport } from './types';
+import { extractMarkup, restoreMarkup } from './markup';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass', 'sbv'];
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt',
+    ass: 'text/x-ssa',
+    sbv: 'text/plain',
+};
+
+const DEFAULT_ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,20,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,2,2,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`;
+
+export function mimeTypeFor(format: SubtitleFormat): string {
+    return MIME_TYPES[format];
+}
+
+/** Picks a format from the file extension when it is known, otherwise sniffs the content. */
+export function detectFormat(content: string, fileName?: string): SubtitleFormat {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    if (extension === 'ssa') return 'ass';
+    if (extension && (SUBTITLE_FORMATS as string[]).includes(extension)) return extension as SubtitleFormat;
+
+    const head = content.replace(/^\uFEFF/, '').trimStart();
+    if (head.startsWith('WEBVTT')) return 'vtt';
+    if (/^\[Script Info\]/i.test(head) || /^\[Events\]/im.test(head)) return 'ass';
+    if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*$/m.test(head.split('\n')[0])) return 'sbv';
+    return 'srt';
+}
+
+/**
+ * Decodes an uploaded file. BOMs win; otherwise strict UTF-8 is tried first and
+ * the legacy fallback (Windows-1256 by default, common for Persian/Arabic
+ * subtitles) is used when the bytes are not valid UTF-8.
+ */
+export function decodeSubtitleBuffer(buffer: Buffer, fallbackEncoding = 'windows-1256'): { content: string, encoding: string } {
+    if (buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) return { content: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8' };
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) return { content: new TextDecoder('utf-16le').decode(buffer.subarray(2)), encoding: 'utf-16le' };
+    if (buffer[0] === 0xFE && buffer[1] === 0xFF) return { content: new TextDecoder('utf-16be').decode(buffer.subarray(2)), encoding: 'utf-16be' };
+    try {
+        return { content: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch {
+        return { content: new TextDecoder(fallbackEncoding).decode(buffer), encoding: fallbackEncoding };
+    }
+}
+
+interface RawCue {
+    // 1-based line in the source file, for report messages.
+    fileLine: number;
+    id?: string;
+    start: string;
+    end: string;
+    text: string;
+    cue?: CueMeta;
+}
+
+class ReportBuilder {
+    readonly errors: ValidationIssue[] = [];
+    readonly warnings: ValidationIssue[] = [];
+    error(code: string, message: string, where: { line?: number } = {}) { this.errors.push({ code, message, ...where }); }
+    warn(code: string, message: string, where: { line?: number } = {}) { this.warnings.push({ code, message, ...where }); }
+}
+
+/**
+ * Parses any supported format leniently and reports everything it had to
+ * repair. A document is only usable when `report.valid` is true: no cue was
+ * dropped for unreadable timing and at least one cue was found.
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat, encoding = 'utf-8'): { document: SubtitleDocument, report: ValidationReport } {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const report = new ReportBuilder();
+    let parsed: { cues: RawCue[], header?: string };
+    switch (format) {
+        case 'srt': parsed = { cues: parseSrt(normalized, report) }; break;
+        case 'vtt': parsed = parseVtt(normalized, report); break;
+        case 'ass': parsed = parseAss(normalized, report); break;
+        case 'sbv': parsed = { cues: parseSbv(normalized, report) }; break;
+    }
+    const lines = finalizeCues(parsed.cues, format, report);
+    if (lines.length === 0 && report.errors.length === 0) report.error('no_cues', 'No subtitle cues were found in the file.');
+    return {
+        document: { format, lines, ...(parsed.header !== undefined ? { header: parsed.header } : {}) },
+        report: { valid: report.errors.length === 0, format, encoding, cueCount: lines.length, errors: report.errors, warnings: report.warnings },
+    };
+}
+
+/**
+ * Writes translated lines in the requested format. Cue settings, ASS styles and
+ * headers captured at parse time are reused when writing back to the same format.
+ */
+export function serializeSubtitles(source: SubtitleDocument, translated: TranslatedSrtLine[], format: SubtitleFormat = source.format): string {
+    const header = format === source.format ? source.header : undefined;
+    const lines = translated.map(line => ({ ...line, translatedText: restoreMarkup(line.translatedText, line.markup, format) }));
+    switch (format) {
+        case 'srt': return toSrt(lines);
+        case 'vtt': return toVtt(lines, header);
+        case 'ass': return toAss(lines, header);
+        case 'sbv': return toSbv(lines);
+    }
+}
+
+// ---- Timestamps: lines always carry SRT-style "HH:MM:SS,mmm" strings; other formats convert at the edges.
+
+export function timestampToMs(timestamp: string): number {
+    const match = timestamp.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+    if (!match) return NaN;
+    const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+    return ((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000 + parseInt(fraction.padEnd(3, '0'), 10);
+}
+
+export function msToTimestamp(ms: number, style: 'srt' | 'vtt' | 'ass' | 'sbv' = 'srt'): string {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3_600_000);
+    const minutes = Math.floor(total / 60_000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    const millis = total % 1000;
+    const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+    switch (style) {
+        case 'srt': return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(millis, 3)}`;
+        case 'vtt': return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+        case 'ass': return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(millis / 10))}`;
+        case 'sbv': return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+    }
+}
+
+function makeLine(sequence: number, startMs: number, endMs: number, rawText: string, cue?: CueMeta): SrtLine {
+    const { text, markup } = extractMarkup(rawText.trim());
+    return {
+        sequence,
+        startTime: msToTimestamp(startMs),
+        endTime: msToTimestamp(endMs),
+        duration: (endMs - startMs) / 1000,
+        text: text.trim(),
+        ...(markup ? { markup } : {}),
+        ...(cue ? { cue } : {}),
+    };
+}
+
+// How long a cue that ends at or before its start is made to last.
+const REPAIRED_DURATION_MS = 1000;
+
+/**
+ * Shared timeline checks: drops cues whose timing cannot be read (an error),
+ * repairs cues that end at or before they start, sorts out-of-order cues and
+ * flags overlaps and empty text (warnings). SRT ids are kept when they are
+ * clean, otherwise every cue is renumbered in order.
+ */
+function finalizeCues(cues: RawCue[], format: SubtitleFormat, report: ReportBuilder): SrtLine[] {
+    const timed: (RawCue & { startMs: number, endMs: number })[] = [];
+    for (const cue of cues) {
+        const startMs = timestampToMs(cue.start);
+        let endMs = timestampToMs(cue.end);
+        if (isNaN(startMs) || isNaN(endMs)) {
+            report.error('invalid_timestamp', `Unreadable timing "${cue.start} --> ${cue.end}"; the cue would be lost.`, { line: cue.fileLine });
+            continue;
+        }
+        if (endMs <= startMs) {
+            endMs = startMs + REPAIRED_DURATION_MS;
+            report.warn('non_positive_duration', `Cue ends at or before it starts (${cue.start} --> ${cue.end}); it now ends ${REPAIRED_DURATION_MS}ms after its start.`, { line: cue.fileLine });
+        }
+        if (!cue.text.trim()) report.warn('empty_text', 'Cue has no text.', { line: cue.fileLine });
+        timed.push({ ...cue, startMs, endMs });
+    }
+
+    const outOfOrder = timed.some((cue, i) => i > 0 && cue.startMs < timed[i - 1].startMs);
+    if (outOfOrder) {
+        report.warn('out_of_order', 'Cues are not in chronological order; they were sorted by start time.');
+        timed.sort((a, b) => a.startMs - b.startMs);
+    }
+    timed.forEach((cue, i) => {
+        if (i > 0 && cue.startMs < timed[i - 1].endMs) {
+            report.warn('overlap', `Cue overlaps the previous cue by ${timed[i - 1].endMs - cue.startMs}ms.`, { line: cue.fileLine });
+        }
+    });
+
+    const ids = timed.map(cue => Number(cue.id));
+    const idsUsable = format === 'srt' && !outOfOrder && ids.every((id, i) => Number.isInteger(id) && id > 0 && (i === 0 || id > ids[i - 1]));
+    if (format === 'srt' && !idsUsable && timed.length > 0) {
+        report.warn('renumbered', 'Cue numbers were missing, duplicated or out of sequence; cues were renumbered.');
+    }
+    return timed.map((cue, i) => makeLine(idsUsable ? ids[i] : i + 1, cue.startMs, cue.endMs, cue.text, cue.cue));
+}
+
+// Blank-line separated blocks with the file line each one starts on.
+function splitBlocks(content: string): { rows: string[], line: number }[] {
+    const blocks: { rows: string[], line: number }[] = [];
+    let current: { rows: string[], line: number } | null = null;
+    content.split('\n').forEach((row, i) => {
+        if (!row.trim()) {
+            current = null;
+            return;
+        }
+        if (!current) {
+            current = { rows: [], line: i + 1 };
+            blocks.push(current);
+        }
+        current.rows.push(row);
+    });
+    return blocks;
+}
+
+// ---- SRT
+
+// Deliberately loose on the timestamps themselves so a malformed one is reported, not mistaken for text.
+const SRT_TIMING = /^\s*(\S+)\s*-->\s*(\S+)/;
+
+/**
+ * Line-by-line scan keyed on timing lines rather than blank-line blocks, so a
+ * missing blank line between cues does not swallow the next cue into the text.
+ */
+function parseSrt(content: string, report: ReportBuilder): RawCue[] {
+    const rows = content.split('\n');
+    const cues: RawCue[] = [];
+    let current: RawCue | null = null;
+    let pendingId: string | undefined;
+    for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const timing = row.match(SRT_TIMING);
+        if (timing) {
+            if (current) cues.push(current);
+            current = { fileLine: i + 1, id: pendingId, start: timing[1], end: timing[2], text: '' };
+            pendingId = undefined;
+            continue;
+        }
+        // A number directly above a timing line is the next cue's id. Anything else there is text: files without ids or blank
+        // lines must not lose the last line of each cue.
+        if (/^\d+$/.test(row.trim()) && SRT_TIMING.test(rows[i + 1] ?? '')) {
+            pendingId = row.trim();
+            continue;
+        }
+        if (!row.trim()) {
+            if (current?.text) {
+                cues.push(current);
+                current = null;
+            }
+            continue;
+        }
+        if (!current) {
+            report.warn('orphan_text', `Text outside of any cue was ignored: "${row.trim().slice(0, 40)}"`, { line: i + 1 });
+            continue;
+        }
+        current.text = current.text ? `${current.text}\n${row}` : row;
+    }
+    if (current) cues.push(current);
+    return cues;
+}
+
+function toSrt(lines: TranslatedSrtLine[]): string {
+    return lines.map(line => `${line.sequence}\n${line.startTime} --> ${line.endTime}\n${line.translatedText}\n`).join('\n');
+}
+
+// ---- WebVTT
+
+function parseVtt(content: string, report: ReportBuilder): { cues: RawCue[], header: string } {
+    if (!content.trimStart().startsWith('WEBVTT')) report.warn('missing_header', 'File does not start with "WEBVTT".', { line: 1 });
+    const headerBlocks: string[] = [];
+    const cues: RawCue[] = [];
+    for (const { rows, line } of splitBlocks(content)) {
+        const timingIndex = rows.findIndex(row => row.includes('-->'));
+        if (timingIndex === -1 || timingIndex > 1) {
+            // WEBVTT line, STYLE and REGION blocks only matter before the first cue; later NOTEs are dropped.
+            if (cues.length === 0) headerBlocks.push(rows.join('\n'));
+            else if (!/^NOTE\b/.test(rows[0])) report.warn('orphan_text', `Block without a timing line was ignored: "${rows[0].slice(0, 40)}"`, { line });
+            continue;
+        }
+        const [start, rest = ''] = rows[timingIndex].split('-->').map(part => part.trim());
+        const [end, ...settings] = rest.split(/\s+/);
+        const cue: CueMeta = {};
+        if (timingIndex === 1) cue.identifier = rows[0].trim();
+        if (settings.length > 0) cue.settings = settings.join(' ');
+        cues.push({
+            fileLine: line + timingIndex,
+            start, end,
+            text: rows.slice(timingIndex + 1).join('\n'),
+            ...(Object.keys(cue).length ? { cue } : {}),
+        });
+    }
+    return { cues, header: headerBlocks.join('\n\n') || 'WEBVTT' };
+}
+
+function toVtt(lines: TranslatedSrtLine[], header = 'WEBVTT'): string {
+    const cues = lines.map(line => {
+        const timing = `${msToTimestamp(timestampToMs(line.startTime), 'vtt')} --> ${msToTimestamp(timestampToMs(line.endTime), 'vtt')}`;
+        const id = line.cue?.identifier ? `${line.cue.identifier}\n` : '';
+        const settings = line.cue?.settings ? ` ${line.cue.settings}` : '';
+        return `${id}${timing}${settings}\n${line.translatedText}\n`;
+    });
+    return `${header}\n\n${cues.join('\n')}`;
+}
+
+// ---- ASS / SSA
+
+function parseAss(content: string, report: ReportBuilder): { cues: RawCue[], header?: string } {
+    const rows = content.split('\n');
+    const eventsStart = rows.findIndex(row => /^\[Events\]/i.test(row.trim()));
+    const formatIndex = rows.findIndex((row, i) => eventsStart !== -1 && i > eventsStart && /^Format:/i.test(row.trim()));
+    if (eventsStart === -1 || formatIndex === -1) {
+        report.error('missing_events', eventsStart === -1 ? 'ASS/SSA file has no [Events] section.' : 'ASS/SSA [Events] section has no Format line.');
+        return { cues: [] };
+    }
+    const fields = rows[formatIndex].replace(/^Format:/i, '').split(',').map(field => field.trim().toLowerCase());
+
+    const cues: RawCue[] = [];
+    rows.forEach((row, i) => {
+        const match = i > formatIndex ? row.match(/^Dialogue:\s*(.*)$/i) : null;
+        if (!match) return;
+        // Text is always the last field and may itself contain commas.
+        const values = match[1].split(',');
+        const record: Record<string, string> = {};
+        fields.forEach((field, f) => {
+            record[field] = f === fields.length - 1 ? values.slice(f).join(',') : (values[f] ?? '').trim();
+        });
+        const { start = '', end = '', text = '', ...rest } = record;
+        const cueText = text.replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ');
+        cues.push({ fileLine: i + 1, start, end, text: cueText, cue: { style: rest.style, assFields: rest } });
+    });
+    return { cues, header: rows.slice(0, formatIndex + 1).join('\n').trim() };
+}
+
+function toAss(lines: TranslatedSrtLine[], header = DEFAULT_ASS_HEADER): string {
+    const fields = (header.split('\n').reverse().find(row => /^Format:/i.test(row.trim())) ?? DEFAULT_ASS_HEADER.split('\n').pop()!)
+        .replace(/^Format:/i, '').split(',').map(field => field.trim().toLowerCase());
+    const defaults: Record<string, string> = { layer: '0', style: 'Default', name: '', marginl: '0', marginr: '0', marginv: '0', effect: '' };
+    const events = lines.map(line => {
+        const values = fields.map(field => {
+            if (field === 'start') return msToTimestamp(timestampToMs(line.startTime), 'ass');
+            if (field === 'end') return msToTimestamp(timestampToMs(line.endTime), 'ass');
+            if (field === 'text') return line.translatedText.replace(/\n/g, '\\N');
+            return line.cue?.assFields?.[field] ?? defaults[field] ?? '';
+        });
+        return `Dialogue: ${values.join(',')}`;
+    });
+    return `${header}\n${events.join('\n')}\n`;
+}
+
+// ---- YouTube SBV
+
+function parseSbv(content: string, report: ReportBuilder): RawCue[] {
+    const cues: RawCue[] = [];
+    for (const { rows: [timing, ...text], line } of splitBlocks(content)) {
+        const match = timing.match(/^([^,]+),([^,]+)$/);
+        if (!match) {
+            report.warn('orphan_text', `Block without a timing line was ignored: "${timing.slice(0, 40)}"`, { line });
+            continue;
+        }
+        cues.push({ fileLine: line, start: match[1], end: match[2], text: text.join('\n') });
+    }
+    return cues;
+}
+
+function toSbv(lines: TranslatedSrtLine[]): string {
+    return lines.map(line =>
+        `${msToTimestamp(timestampToMs(line.startTime), 'sbv')},${msToTimestamp(timestampToMs(line.endTime), 'sbv')}\n${line.translatedText}\n`
+    ).join('\n');
+}
@@ -0,0 +1,83 @@
+import { MongoTranslationMemory } from './mongo.tm';
+import { InMemoryTranslationMemory } from './memory.tm';
+import { ReviewedCue } from './types';
+
+export type SegmentOrigin = 'approved' | 'corrected';
+
+export interface MemorySegment {
+    sourceLanguage: string;
+    targetLanguage: string;
+    sourceText: string;
+    targetText: string;
+    origin: SegmentOrigin;
+    jobId: string;
+}
+
+export interface MemoryMatch {
+    sourceText: string;
+    targetText: string;
+    // 1 for an exact (normalised) match, otherwise the similarity of the source texts.
+    score: number;
+    origin: SegmentOrigin;
+}
+
+/**
+ * Approved source/target segment pairs shared by every job. Unlike the vector
+ * store this outlives jobs: it is how one team's corrections reach later work.
+ */
+export interface TranslationMemory {
+    store(segments: MemorySegment[]): Promise<void>;
+    findExact(sourceLanguage: string, targetLanguage: string, sourceTexts: string[]): Promise<Map<string, MemoryMatch>>;
+    findFuzzy(sourceLanguage: string, targetLanguage: string, sourceText: string, limit: number): Promise<MemoryMatch[]>;
+}
+
+export const FUZZY_THRESHOLD = 0.7;
+
+let sharedMemory: TranslationMemory | null = null;
+
+export function getTranslationMemory(): TranslationMemory {
+    if (!sharedMemory) sharedMemory = createTranslationMemory();
+    return sharedMemory;
+}
+
+function createTranslationMemory(): TranslationMemory {
+    const kind = (process.env.TRANSLATION_MEMORY || 'mongo').toLowerCase();
+    switch (kind) {
+        case 'mongo': return new MongoTranslationMemory();
+        case 'memory': return new InMemoryTranslationMemory();
+        default:
+            throw new Error(`Unknown TRANSLATION_MEMORY "${process.env.TRANSLATION_MEMORY}". Expected mongo or memory.`);
+    }
+}
+
+/** Case, Unicode form and whitespace differences do not make two segments different. */
+export function normalizeSegment(text: string): string {
+    return text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Levenshtein ratio on the normalised texts, 0..1. */
+export function segmentSimilarity(a: string, b: string): number {
+    const left = normalizeSegment(a);
+    const right = normalizeSegment(b);
+    if (left === right) return 1;
+    if (!left.length || !right.length) return 0;
+    return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+export function editDistance(left: string, right: string): number {
+    let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= left.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= right.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[right.length];
+}
+
+export function segmentsFromReview(cues: ReviewedCue[], context: { sourceLanguage: string, targetLanguage: string, jobId: string }): MemorySegment[] {
+    return cues
+        .filter(cue => cue.sourceText && cue.userText)
+        .map(cue => ({ ...context, sourceText: cue.sourceText, targetText: cue.userText, origin: cue.changed ? 'corrected' : 'approved' }));
+}
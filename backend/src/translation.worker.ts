@@ -0,0 +1,838 @@
+import { TranslationBlueprint, SrtLine, TranslatedSrtLine, Keyword, GroundedKeyword, UserGlossaryItem, TranslationSettings, ModelTier, SubtitleDocument, SubtitleConstraints, BlueprintSet, TargetTranslation, QaIssue, QaReport, LineCritique, GlossaryTerm, SceneNotes, SeriesBlueprint, CharacterProfile, UsageEntry, UsageStage, LineOrigin } from './types';
+import { JsonTask, LlmProvider, LlmResponseFormatError, ModelTiers, createLlmProvider, estimateTokens, getModelTiers } from './llm.provider';
+import { JsonSchema, TASK_SCHEMAS, validateJson } from './llm.schemas';
+import { extendBlueprint, mergeKeywords, mergeSceneNotes } from './blueprints';
+import { chunkScript } from './scenes';
+import { VectorRecord, VectorStore, getVectorStore } from './vector.store';
+import { InMemoryVectorStore } from './memory.store';
+import { serializeSubtitles } from './subtitle.formats';
+import { MARKUP_INSTRUCTIONS, checkPlaceholders, repairPlaceholders } from './markup';
+import { breakLines, buildComplianceReport, characterBudget, fitsBudget, measureCue, visibleLength } from './constraints';
+import { LanguageProfile, getLanguage } from './languages';
+import { MemoryMatch, TranslationMemory, getTranslationMemory } from './translation.memory';
+import { buildQaReport, checkTranslation } from './qa';
+import { TASK_STAGES, UsageMeter } from './usage';
+
+export interface RetranslateOptions {
+    // Number of alternatives to ask for per cue.
+    alternatives: number;
+    tier?: ModelTier;
+    instruction?: string;
+}
+
+export interface TranslationHooks {
+    updateStage: (stage: string) => void;
+    checkCancelled: () => Promise<void>;
+    // Lines finished by a previous attempt, keyed by target language then sequence; these are reused instead of re-translated.
+    completedLines: Map<string, Map<number, string>>;
+    // `origin` is left out when QA only aligned the line with the majority rendering of its text.
+    onLineTranslated: (language: string, sequence: number, translatedText: string, origin?: LineOrigin) => Promise<void>;
+    onQaReport: (report: QaReport) => void;
+    // Thinking mode only: the critic's notes on lines it sent back for refinement.
+    onCritiques: (critiques: LineCritique[]) => Promise<void>;
+    // The source line embeddings, for retranslateCues() after the job.
+    onScriptIndexed: (records: VectorRecord[]) => Promise<void>;
+}
+
+// Rules of thumb behind estimateUsage(), from the prompts as they are written and typical scripts.
+const ESTIMATE = {
+    // Instructions and JSON shape of one prompt.
+    promptTokens: 600,
+    // The translation brief every translation, critique and QA prompt carries.
+    briefTokens: 1500,
+    notesTokensPerChunk: 400,
+    keywordsPerChunk: 30,
+    tokensPerKeyword: 40,
+    triageTokensPerLine: 12,
+    // Translated text relative to the source, with the JSON around it.
+    outputRatio: 1.3,
+    // Neighbouring and long-term context lines in a per-line prompt; a batch prompt has its batch plus six neighbours.
+    contextLines: 8,
+    condenseRate: 0.1,
+    qaRetranslateRate: 0.05,
+};
+
+// Like Promise.all, but rejects only after every task has settled, with the error that happened first.
+async function settleAll<T>(tasks: Promise<T>[]): Promise<T[]> {
+    const errors: unknown[] = [];
+    const results = await Promise.all(tasks.map(task => task.catch(error => {
+        errors.push(error);
+        return undefined as unknown as T;
+    })));
+    if (errors.length > 0) throw errors[0];
+    return results;
+}
+
+export class TranslationWorkerService {
+    private readonly embeddingModelName: string;
+    private readonly flashModel: string;
+    private readonly proModel: string;
+    private readonly linesPerBatch = 15;
+    private readonly batchConcurrency = Math.max(parseInt(process.env.BATCH_CONCURRENCY || '4', 10), 1);
+    private readonly batchRetries = 2;
+    private readonly markupRetries = 1;
+    private readonly condenseRetries = 2;
+    private readonly memoryExamples = 3;
+    private readonly blueprintChunkCharacters = 12000;
+    private readonly sceneGapMs = 4000;
+    private readonly keywordsPerGlossaryCall = 40;
+    private readonly evidenceLines = 2;
+    private readonly jsonRepairRetries = 2;
+
+    constructor(
+      private readonly llm: LlmProvider = createLlmProvider(),
+      private readonly vectorStore: VectorStore = getVectorStore(),
+      private readonly memory: TranslationMemory = getTranslationMemory(),
+      tiers: ModelTiers = getModelTiers(),
+      // Counts every model call the service makes; see usage.ts.
+      private readonly meter: UsageMeter = new UsageMeter()
+    ) {
+        this.embeddingModelName = tiers.embedding;
+        this.flashModel = tiers.flash;
+        this.proModel = tiers.pro;
+    }
+
+    /**
+     * The script is read in scene-sized chunks: keywords and scene notes are
+     * extracted per chunk, merged and deduplicated, and one synthesis pass turns
+     * the merged notes into the analysis all targets share. Grounding and
+     * glossary selection then run per target language over slices of the merged
+     * keywords, with the lines each term appears in as evidence, so no prompt
+     * carries the whole script.
+     *
+     * For an episode of a project, `series` is the blueprint earlier episodes
+     * built up: its characters are handed to the analysis, keywords it already
+     * has a rendering for skip grounding, and the result extends it rather than
+     * replacing it (see `extendBlueprint`).
+     */
+    public async generateBlueprints(
+      lines: SrtLine[], tone: string, userGlossary: UserGlossaryItem[],
+      sourceLanguage: string, targetLanguages: string[],
+      updateStage: (stage: string) => void, series?: SeriesBlueprint
+    ): Promise<BlueprintSet> {
+        const source = getLanguage(sourceLanguage);
+        const chunks = chunkScript(lines, this.blueprintChunkCharacters, this.sceneGapMs);
+        updateStage(chunks.length > 1 ? `Phase 1a: Extracting Keywords and Scene Notes from ${chunks.length} parts...` : 'Phase 1a: Extracting Keywords and Scene Notes...');
+        const parts = await Promise.all(chunks.map(async chunk => {
+            const text = chunk.map(line => line.text).join('\n');
+            const [{ keywords }, notes] = await Promise.all([
+                this.runJsonTool(this.flashModel, 'keywords', this.getPhase1A_Prompt(text, source)),
+                this.runJsonTool(this.flashModel, 'scene_notes', this.getSceneNotes_Prompt(text, tone, source)),
+            ]);
+            return { keywords: keywords as Keyword[], notes: notes as SceneNotes };
+        }));
+        const keywords = mergeKeywords(parts.map(part => part.keywords));
+        const notes = mergeSceneNotes(parts.map(part => part.notes));
+
+        updateStage('Phase 1b: Analysing Script...');
+        const analysis = await this.runJsonTool(this.proModel, 'analysis', this.getAnalysis_Prompt(notes, tone, source, series?.characterProfiles ?? []));
+        if (!analysis.summary.trim()) throw new Error("AI failed to generate a valid blueprint.");
+
+        const blueprints: BlueprintSet = {};
+        await Promise.all(targetLanguages.map(async (code, i) => {
+            const target = getLanguage(code);
+            // Untagged user glossary entries predate multi-language jobs and belong to the first target.
+            const targetGlossary = userGlossary.filter(item => item.language ? item.language === code : i === 0);
+            const established = new Set((series?.glossaries[code] ?? []).map(term => term.term.trim().toLowerCase()));
+            const fresh = keywords.filter(keyword => !established.has(keyword.term.trim().toLowerCase()));
+            // One slice even without keywords, so the user glossary still goes through the glossary step.
+            const slices: Keyword[][] = [];
+            for (let k = 0; k < fresh.length || slices.length === 0; k += this.keywordsPerGlossaryCall) {
+                slices.push(fresh.slice(k, k + this.keywordsPerGlossaryCall));
+            }
+            updateStage(`Phase 1c: Grounding and Assembling the ${target.name} Glossary...`);
+            const glossaries = await Promise.all(slices.map(async (slice, s) => {
+                const groundedKeywords = slice.length === 0 ? [] : (await this.runJsonTool(this.flashModel, 'grounding', this.getPhase1B_Prompt(slice, source, target))).grounded_keywords;
+                // The user glossary rides with the first slice only; the merge below keeps its entries first.
+                const userItems = s === 0 ? targetGlossary : [];
+                const evidence = this.findEvidence(lines, [...userItems.map(item => item.term), ...slice.map(keyword => keyword.term)]);
+                const { glossary } = await this.runJsonTool(this.proModel, 'glossary', this.getGlossary_Prompt(analysis.summary, tone, groundedKeywords, userItems, evidence, source, target));
+                return glossary as GlossaryTerm[];
+            }));
+            const blueprint: TranslationBlueprint = {
+                summary: analysis.summary,
+                keyPoints: analysis.keyPoints,
+                characterProfiles: analysis.characterProfiles,
+                culturalNuances: analysis.culturalNuances,
+                glossary: glossaries.reduce<GlossaryTerm[]>((all, glossary) => all.concat(glossary), [])
+                    .filter((term, j, all) => all.findIndex(other => other.term.trim().toLowerCase() === term.term.trim().toLowerCase()) === j),
+            };
+            blueprints[code] = series ? extendBlueprint(series, code, blueprint, targetGlossary.map(item => item.term)) : blueprint;
+        }));
+        // Keep the caller's target order regardless of which language finished first.
+        return targetLanguages.reduce<BlueprintSet>((ordered, code) => ({ ...ordered, [code]: blueprints[code] }), {});
+    }
+
+    /**
+     * Translates the document into every target in `blueprints` (in key order)
+     * against a single long-term memory index built from the source lines, then
+     * runs the QA pass on each target before measuring compliance.
+     */
+    public async executeTranslation(
+      jobId: string, document: SubtitleDocument, blueprints: BlueprintSet,
+      settings: Omit<TranslationSettings, 'targetLanguage'>, hooks: TranslationHooks
+    ): Promise<TargetTranslation[]> {
+        const { updateStage, completedLines } = hooks;
+        const srtLines = document.lines;
+        const targets = Object.keys(blueprints);
+        const alreadyDone = targets.reduce((sum, code) => sum + (completedLines.get(code)?.size ?? 0), 0);
+        if (alreadyDone > 0) {
+            updateStage(`Resuming: ${alreadyDone} of ${srtLines.length * targets.length} lines already translated`);
+        }
+
+        updateStage('Indexing script for long-term memory...');
+        await hooks.onScriptIndexed(await this.indexContent(jobId, srtLines));
+        try {
+            const results: TargetTranslation[] = [];
+            for (const targetLanguage of targets) {
+                const runSettings: TranslationSettings = { ...settings, targetLanguage };
+                const brief = this.stringifyBlueprint(blueprints[targetLanguage], targetLanguage);
+                const condensed = new Set<number>();
+                const translatedLines = await this.translateLines(jobId, srtLines, brief, runSettings, hooks, condensed);
+                const { lines: allTranslatedLines, qa } = await this.reviewTranslation(jobId, translatedLines, blueprints[targetLanguage], brief, runSettings, hooks, condensed);
+                hooks.onQaReport(qa);
+                const compliance = buildComplianceReport(
+                    allTranslatedLines.map(line => measureCue(line.sequence, line.translatedText, line.duration, condensed.has(line.sequence), settings.constraints)),
+                    settings.constraints
+                );
+                updateStage(`${getLanguage(targetLanguage).name}: ${compliance.compliantCues} of ${compliance.totalCues} cues within reading-speed and layout limits`);
+                results.push({ language: targetLanguage, result: serializeSubtitles(document, allTranslatedLines, settings.outputFormat), compliance, qa });
+            }
+            return results;
+        } finally {
+            updateStage('Cleaning up long-term memory...');
+            await this.cleanupIndex(jobId);
+        }
+    }
+
+    /**
+     * Up to BATCH_CONCURRENCY batches run at once and the lines inside them run
+     * concurrently; the shared request scheduler decides how many model calls
+     * are actually in flight. After the first failure no further batch or line
+     * is started, and the error is only raised once everything already running
+     * has settled, so the caller's cleanup never races a batch.
+     */
+    private async translateLines(
+      jobId: string, srtLines: SrtLine[], translationBrief: string,
+      settings: TranslationSettings, hooks: TranslationHooks, condensed: Set<number>
+    ): Promise<TranslatedSrtLine[]> {
+        const batches: SrtLine[][] = [];
+        for (let i = 0; i < srtLines.length; i += this.linesPerBatch) {
+            batches.push(srtLines.slice(i, i + this.linesPerBatch));
+        }
+
+        const target = getLanguage(settings.targetLanguage);
+        const translations = new Map<number, string>(hooks.completedLines.get(target.code));
+        const commit = async (line: SrtLine, text: string, origin: LineOrigin) => {
+            await hooks.onLineTranslated(target.code, line.sequence, text, origin);
+            translations.set(line.sequence, text);
+            hooks.updateStage(`Translated ${translations.size} of ${srtLines.length} lines into ${target.name}`);
+        };
+        const record = async (line: SrtLine, tier: ModelTier, translation: string) => {
+            await commit(line, await this.fitToConstraints(jobId, line, tier, translation, settings, condensed), tier);
+        };
+        // In thinking mode a batch's translations are drafts until the critic has seen all of them.
+        const drafts = new Map<number, string>();
+        const deliver = async (line: SrtLine, tier: ModelTier, translation: string) => {
+            if (settings.thinkingMode) drafts.set(line.sequence, translation);
+            else await record(line, tier, translation);
+        };
+        const isDone = (line: SrtLine) => translations.has(line.sequence) || drafts.has(line.sequence);
+        let failed = false;
+        const checkpoint = async () => {
+            if (failed) throw new Error('Stopped because another batch failed.');
+            await hooks.checkCancelled();
+        };
+
+        // Approved translations of the exact same line are reused; near matches become prompt examples. A reused line still
+        // has to fit this cue's timing and line limits, so it is condensed by the flash tier if need be and re-wrapped.
+        const { exact, fuzzy } = await this.lookupMemory(srtLines.filter(line => !translations.has(line.sequence)), settings);
+        hooks.updateStage(`Translation memory: ${exact.size} exact and ${fuzzy.size} fuzzy matches for ${target.name}`);
+        for (const [sequence, match] of exact) {
+            const line = srtLines.find(candidate => candidate.sequence === sequence)!;
+            await commit(line, await this.fitToConstraints(jobId, line, 'flash', match.targetText, settings, condensed), 'memory');
+        }
+
+        const translateBatchAt = async (i: number) => {
+            const batch = batches[i];
+            const progress = `Batch ${i + 1} of ${batches.length}`;
+            const pending = batch.filter(line => !translations.has(line.sequence));
+            if (pending.length === 0) return;
+
+            await checkpoint();
+            hooks.updateStage(`Triage Agent classifying ${progress}`);
+            const triageResult = await this.triageBatch(pending);
+            const tierOf = (line: SrtLine) => triageResult.find(t => t.id === line.sequence)?.model || 'flash';
+
+            if (settings.mode === 'batch') {
+                const neighbours = { before: batches[i - 1]?.slice(-3) ?? [], after: batches[i + 1]?.slice(0, 3) ?? [] };
+                await settleAll((['flash', 'pro'] as const).map(async tier => {
+                    const tierLines = pending.filter(line => tierOf(line) === tier);
+                    if (tierLines.length === 0) return;
+                    await checkpoint();
+                    const batchResult = await this.translateBatch(jobId, tierLines, batch, neighbours, tier, translationBrief, settings, fuzzy);
+                    await settleAll(tierLines.filter(line => batchResult.has(line.sequence)).map(line => deliver(line, tier, batchResult.get(line.sequence)!)));
+                }));
+            }
+
+            // Per-line path: the whole batch in 'line' mode, or whatever batch mode could not align.
+            await settleAll(pending.filter(l => !isDone(l)).map(async line => {
+                await checkpoint();
+                const translation = await this.translateSingleLine(jobId, line, tierOf(line), translationBrief, settings, fuzzy.get(line.sequence) ?? []);
+                await deliver(line, tierOf(line), translation);
+            }));
+
+            if (settings.thinkingMode) {
+                hooks.updateStage(`Critic reviewing ${progress}`);
+                const refined = await this.critiqueAndRefine(jobId, pending, drafts, batch, translationBrief, settings, hooks);
+                await settleAll(pending.map(line => record(line, tierOf(line), refined.get(line.sequence)!)));
+            }
+        };
+
+        // Each lane takes the next batch until none are left or one has failed.
+        let next = 0;
+        await settleAll(Array.from({ length: Math.min(this.batchConcurrency, batches.length) }, async () => {
+            while (next < batches.length && !failed) {
+                try {
+                    await translateBatchAt(next++);
+                } catch (error) {
+                    failed = true;
+                    throw error;
+                }
+            }
+        }));
+        return srtLines.map(line => ({ ...line, translatedText: translations.get(line.sequence) ?? '' }));
+    }
+
+    /**
+     * Checks one target's output (see qa.ts). With `qaRetranslate`, every flagged
+     * cue is fixed once: a cue whose only problem is inconsistency takes the
+     * majority rendering of its line, anything else goes back to the pro tier with
+     * the issues spelled out. The report is then taken again on the fixed output.
+     */
+    private async reviewTranslation(
+      jobId: string, lines: TranslatedSrtLine[], blueprint: TranslationBlueprint, translationBrief: string,
+      settings: TranslationSettings, hooks: TranslationHooks, condensed: Set<number>
+    ): Promise<{ lines: TranslatedSrtLine[], qa: QaReport }> {
+        const source = getLanguage(settings.sourceLanguage);
+        const target = getLanguage(settings.targetLanguage);
+        hooks.updateStage(`Running QA checks on the ${target.name} translation...`);
+        let issues = checkTranslation(lines, blueprint.glossary, source, target);
+        const retranslated: number[] = [];
+
+        if (settings.qaRetranslate && issues.length > 0) {
+            const flagged = new Map<number, QaIssue[]>();
+            issues.forEach(issue => flagged.set(issue.sequence, [...(flagged.get(issue.sequence) ?? []), issue]));
+            hooks.updateStage(`Re-translating ${flagged.size} ${target.name} cues flagged by QA...`);
+            const fixed = new Map<number, string>();
+            await settleAll(lines.filter(line => flagged.has(line.sequence)).map(async line => {
+                await hooks.checkCancelled();
+                const lineIssues = flagged.get(line.sequence)!;
+                const majority = lineIssues.every(issue => issue.type === 'inconsistent') ? lineIssues[0].expected : undefined;
+                const aligned = majority !== undefined && checkPlaceholders(majority, line.markup).ok;
+                const translation = aligned
+                    ? majority!
+                    : await this.fitToConstraints(jobId, line, 'pro', await this.retranslateLine(jobId, line, lineIssues, translationBrief, settings), settings, condensed);
+                await hooks.onLineTranslated(target.code, line.sequence, translation, aligned ? undefined : 'pro');
+                fixed.set(line.sequence, translation);
+                retranslated.push(line.sequence);
+            }));
+            lines = lines.map(line => fixed.has(line.sequence) ? { ...line, translatedText: fixed.get(line.sequence)! } : line);
+            issues = checkTranslation(lines, blueprint.glossary, source, target);
+        }
+
+        const qa = buildQaReport(target.code, lines, issues, retranslated.sort((a, b) => a - b));
+        hooks.updateStage(`${target.name} QA: ${qa.flaggedCues} of ${qa.checkedCues} cues flagged`);
+        return { lines, qa };
+    }
+
+    /**
+     * Proposes new renderings of selected cues after the job has finished. The
+     * job's long-term memory index is gone by then; `scriptVectors`, the source
+     * embeddings the job stored (see embedScript()), are searched in a private
+     * in-memory index instead, so only the requested lines are embedded. `tier`
+     * overrides the triage agent. Texts keep the source's placeholders; nothing
+     * is stored.
+     */
+    public async retranslateCues(
+      jobId: string, document: SubtitleDocument, sequences: number[], currentTranslations: Map<number, string>,
+      blueprint: TranslationBlueprint, settings: TranslationSettings, options: RetranslateOptions, scriptVectors: VectorRecord[]
+    ): Promise<{ sequence: number, tier: ModelTier, alternatives: string[] }[]> {
+        const lines = document.lines.filter(line => sequences.includes(line.sequence));
+        const brief = this.stringifyBlueprint(blueprint, settings.targetLanguage);
+        const scriptIndex = new InMemoryVectorStore();
+        await scriptIndex.upsert(jobId, scriptVectors);
+        const triage = options.tier ? [] : await this.triageLines(lines);
+        const { exact, fuzzy } = await this.lookupMemory(lines, settings);
+        return Promise.all(lines.map(async line => {
+            const tier = options.tier ?? triage.find(t => t.id === line.sequence)?.model ?? 'flash';
+            const index = document.lines.indexOf(line);
+            const scene = document.lines.slice(Math.max(0, index - 3), index + 4);
+            const examples = exact.has(line.sequence) ? [exact.get(line.sequence)!] : fuzzy.get(line.sequence) ?? [];
+            const current = currentTranslations.get(line.sequence) ?? '';
+            const longTermContext = await this.queryContext(jobId, line.text, scriptIndex);
+            const prompt = this.getAlternatives_Prompt(line, current, scene, longTermContext, brief, settings, examples, options);
+            const response = await this.runJsonTool(this.modelFor(tier), 'alternatives', prompt);
+            const candidates = (Array.isArray(response.alternatives) ? response.alternatives : [])
+                .filter((text: unknown): text is string => typeof text === 'string' && !!text.trim())
+                .map((text: string) => line.markup && !checkPlaceholders(text.trim(), line.markup).ok ? repairPlaceholders(text.trim(), line.markup) : text.trim());
+            if (candidates.length === 0) throw new Error(`The model returned no alternatives for line ${line.sequence}.`);
+            const alternatives = await Promise.all(candidates.slice(0, options.alternatives).map((text: string) => this.fitToConstraints(jobId, line, tier, text, settings, new Set())));
+            return { sequence: line.sequence, tier, alternatives: alternatives.filter((text, i) => text !== current && alternatives.indexOf(text) === i) };
+        }));
+    }
+
+    /** Embeds the source lines as indexContent() does, without storing them; for jobs that finished before their embeddings were kept. */
+    public async embedScript(jobId: string, lines: SrtLine[]): Promise<VectorRecord[]> {
+        const embeddings = await this.llm.embed(this.embeddingModelName, lines.map(line => line.text), usage => this.meter.record('embedding', this.embeddingModelName, usage));
+        return lines.map((line, i) => ({ id: `${jobId}-${line.sequence}`, values: embeddings[i], text: line.text }));
+    }
+
+    /**
+     * Thinking mode's second and third passes over one batch. The critic checks
+     * every draft against the brief, the tone and the cue's character budget;
+     * lines it objects to are rewritten on the pro tier with its notes, and
+     * those notes are stored through `hooks.onCritiques`. Returns the text to
+     * keep for every line; a refinement that loses its placeholders keeps the draft.
+     */
+    private async critiqueAndRefine(
+      jobId: string, lines: SrtLine[], drafts: Map<number, string>, batch: SrtLine[],
+      translationBrief: string, settings: TranslationSettings, hooks: TranslationHooks
+    ): Promise<Map<number, string>> {
+        const results = new Map(lines.map(line => [line.sequence, drafts.get(line.sequence)!]));
+        await hooks.checkCancelled();
+        const review = await this.runJsonTool(this.proModel, 'critique', this.getCritique_Prompt(lines, drafts, batch, translationBrief, settings));
+        const notes = new Map<number, string[]>();
+        for (const item of Array.isArray(review.critiques) ? review.critiques : []) {
+            const sequence = Number(item?.sequence);
+            const issues = (Array.isArray(item?.issues) ? item.issues : []).filter((issue: unknown): issue is string => typeof issue === 'string' && !!issue.trim());
+            if (results.has(sequence) && issues.length > 0) notes.set(sequence, issues.map((issue: string) => issue.trim()));
+        }
+        const flagged = lines.filter(line => notes.has(line.sequence));
+        if (flagged.length === 0) return results;
+
+        await hooks.checkCancelled();
+        const refinement = await this.runJsonTool(this.proModel, 'refinement', this.getRefine_Prompt(flagged, drafts, notes, translationBrief, settings));
+        const refined = new Map<number, string>();
+        for (const item of Array.isArray(refinement.translations) ? refinement.translations : []) {
+            const line = flagged.find(l => l.sequence === Number(item?.sequence));
+            const text = typeof item?.translation === 'string' ? item.translation.trim() : '';
+            if (line && text && checkPlaceholders(text, line.markup).ok) refined.set(line.sequence, text);
+        }
+        const critiques = flagged.filter(line => refined.has(line.sequence)).map(line => ({
+            jobId, language: settings.targetLanguage, sequence: line.sequence, sourceText: line.text,
+            draft: drafts.get(line.sequence)!, issues: notes.get(line.sequence)!, refined: refined.get(line.sequence)!,
+        }));
+        critiques.forEach(critique => results.set(critique.sequence, critique.refined));
+        await hooks.onCritiques(critiques);
+        return results;
+    }
+
+    private async retranslateLine(
+      jobId: string, line: TranslatedSrtLine, issues: QaIssue[], translationBrief: string, settings: TranslationSettings
+    ): Promise<string> {
+        const longTermContext = await this.queryContext(jobId, line.text);
+        const translation = (await this.runTextGen(this.proModel, this.getQaFix_Prompt(line, longTermContext, translationBrief, settings, issues), 'qa')).trim();
+        if (!translation) return line.translatedText;
+        return !line.markup || checkPlaceholders(translation, line.markup).ok ? translation : repairPlaceholders(translation, line.markup);
+    }
+
+    private async translateSingleLine(
+      jobId: string, line: SrtLine, tier: ModelTier, translationBrief: string,
+      settings: TranslationSettings, examples: MemoryMatch[]
+    ): Promise<string> {
+        const longTermContext = await this.queryContext(jobId, line.text);
+        const prompt = this.getStep2_Prompt(line, longTermContext, translationBrief, settings, examples);
+        let translation = (await this.runTextGen(this.modelFor(tier), prompt, 'translation')).trim();
+        if (!line.markup) return translation;
+
+        for (let attempt = 0; attempt < this.markupRetries && !checkPlaceholders(translation, line.markup).ok; attempt++) {
+            translation = (await this.runTextGen(this.modelFor(tier), prompt, 'translation')).trim();
+        }
+        const check = checkPlaceholders(translation, line.markup);
+        if (check.ok) return translation;
+        console.warn(`Line ${line.sequence} of job ${jobId} lost its markup placeholders (missing: ${check.missing.join(' ')}; duplicated: ${check.duplicated.join(' ')}); repairing.`);
+        return repairPlaceholders(translation, line.markup);
+    }
+
+    /**
+     * Translates several lines in one JSON-mode call. Answers are matched back by
+     * sequence; lines that come back missing, empty or unknown are re-requested up
+     * to `batchRetries` times and otherwise left for the per-line fallback.
+     */
+    private async translateBatch(
+      jobId: string, lines: SrtLine[], batch: SrtLine[], neighbours: { before: SrtLine[], after: SrtLine[] },
+      tier: ModelTier, translationBrief: string, settings: TranslationSettings, fuzzy: Map<number, MemoryMatch[]>
+    ): Promise<Map<number, string>> {
+        const results = new Map<number, string>();
+        const longTermContext = await this.queryContext(jobId, batch.map(line => line.text).join('\n'));
+        let missing = lines;
+        for (let attempt = 0; attempt <= this.batchRetries && missing.length > 0; attempt++) {
+            const examples = missing.reduce<MemoryMatch[]>((all, line) => all.concat(fuzzy.get(line.sequence) ?? []), [])
+                .filter((match, i, all) => all.findIndex(other => other.sourceText === match.sourceText) === i);
+            const prompt = this.getBatchTranslation_Prompt(missing, [...neighbours.before, ...batch, ...neighbours.after], longTermContext, translationBrief, settings, examples);
+            const response = await this.runJsonTool(this.modelFor(tier), 'batch_translation', prompt);
+            const expected = new Set(missing.map(line => line.sequence));
+            for (const item of Array.isArray(response.translations) ? response.translations : []) {
+                const sequence = Number(item?.sequence);
+                const text = typeof item?.translation === 'string' ? item.translation.trim() : '';
+                const line = missing.find(l => l.sequence === sequence);
+                // A line whose placeholders were dropped or duplicated counts as misaligned and is asked for again.
+                if (line && expected.has(sequence) && text && !results.has(sequence) && checkPlaceholders(text, line.markup).ok) {
+                    results.set(sequence, text);
+                }
+            }
+            missing = missing.filter(line => !results.has(line.sequence));
+            if (missing.length > 0) {
+                console.warn(`Batch translation for job ${jobId} is missing sequences ${missing.map(l => l.sequence).join(', ')} (attempt ${attempt + 1}).`);
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Asks the same tier for a shorter rendering while the line is over its
+     * character budget, keeping the shortest candidate whose placeholders are
+     * intact, then re-wraps it for the screen.
+     */
+    private async fitToConstraints(
+      jobId: string, line: SrtLine, tier: ModelTier, translation: string,
+      settings: TranslationSettings, condensed: Set<number>
+    ): Promise<string> {
+        const { constraints } = settings;
+        let best = translation;
+        for (let attempt = 0; attempt < this.condenseRetries && !fitsBudget(best, line.duration, constraints); attempt++) {
+            condensed.add(line.sequence);
+            const prompt = this.getCondense_Prompt(line, best, characterBudget(line.duration, constraints), settings);
+            const candidate = (await this.runTextGen(this.modelFor(tier), prompt, 'condensing')).trim();
+            if (candidate && visibleLength(candidate) < visibleLength(best) && checkPlaceholders(candidate, line.markup).ok) best = candidate;
+        }
+        if (!fitsBudget(best, line.duration, constraints)) {
+            console.warn(`Line ${line.sequence} of job ${jobId} is still over its ${characterBudget(line.duration, constraints)}-character budget after condensing.`);
+        }
+        return breakLines(best, constraints, getLanguage(settings.targetLanguage));
+    }
+
+    private async lookupMemory(lines: SrtLine[], settings: TranslationSettings): Promise<{ exact: Map<number, MemoryMatch>, fuzzy: Map<number, MemoryMatch[]> }> {
+        const { sourceLanguage, targetLanguage } = settings;
+        const candidates = lines.filter(line => line.text);
+        const exactMatches = await this.memory.findExact(sourceLanguage, targetLanguage, candidates.map(line => line.text));
+        const exact = new Map<number, MemoryMatch>();
+        const fuzzy = new Map<number, MemoryMatch[]>();
+        await Promise.all(candidates.map(async line => {
+            const match = exactMatches.get(line.text);
+            // Memory entries are plain text, so a line with markup can only use its exact match as an example.
+            if (match && !line.markup) {
+                exact.set(line.sequence, match);
+                return;
+            }
+            const matches = await this.memory.findFuzzy(sourceLanguage, targetLanguage, line.text, this.memoryExamples);
+            const examples = match ? [match, ...matches] : matches;
+            if (examples.length > 0) fuzzy.set(line.sequence, examples);
+        }));
+        return { exact, fuzzy };
+    }
+
+    /**
+     * Predicts the model calls a job will make without calling a model: the
+     * same chunks and batches the job will use, with prompt and answer sizes
+     * from the ESTIMATE rules of thumb. `proShare` is the expected share of
+     * lines triaged to the pro tier. Memory matches, resumed lines and JSON
+     * repairs are not predicted.
+     */
+    public estimateUsage(
+      lines: SrtLine[], targetLanguages: string[],
+      settings: Pick<TranslationSettings, 'mode' | 'thinkingMode' | 'qaRetranslate'>, proShare: number
+    ): UsageEntry[] {
+        const meter = new UsageMeter();
+        const add = (stage: UsageStage, model: string, calls: number, inputTokens: number, outputTokens: number) => {
+            if (calls > 0) meter.record(stage, model, { inputTokens: Math.round(inputTokens), outputTokens: Math.round(outputTokens) }, Math.ceil(calls));
+        };
+        const { promptTokens, briefTokens, outputRatio } = ESTIMATE;
+        const targets = targetLanguages.length;
+        const sourceTokens = estimateTokens(lines.map(line => line.text).join('\n'));
+        const lineTokens = sourceTokens / Math.max(lines.length, 1);
+        const batches = Math.ceil(lines.length / this.linesPerBatch);
+        const batchTokens = lineTokens * this.linesPerBatch;
+        const chunks = chunkScript(lines, this.blueprintChunkCharacters, this.sceneGapMs).length;
+        const slices = targets * Math.ceil(chunks * ESTIMATE.keywordsPerChunk / this.keywordsPerGlossaryCall);
+        const sliceTokens = this.keywordsPerGlossaryCall * ESTIMATE.tokensPerKeyword;
+
+        add('blueprint', this.flashModel, 2 * chunks, 2 * (sourceTokens + chunks * promptTokens), chunks * (ESTIMATE.keywordsPerChunk * ESTIMATE.tokensPerKeyword + ESTIMATE.notesTokensPerChunk));
+        add('blueprint', this.flashModel, slices, slices * (promptTokens + sliceTokens), slices * sliceTokens);
+        add('blueprint', this.proModel, 1 + slices, promptTokens + chunks * ESTIMATE.notesTokensPerChunk + slices * (promptTokens + briefTokens + 2 * sliceTokens), briefTokens + slices * sliceTokens);
+
+        const lookups = targets * (settings.mode === 'batch' ? batches : lines.length);
+        add('embedding', this.embeddingModelName, 1 + lookups, sourceTokens * (1 + targets), 0);
+        add('triage', this.flashModel, targets * batches, targets * (sourceTokens + batches * promptTokens), targets * lines.length * ESTIMATE.triageTokensPerLine);
+
+        for (const [tier, share] of [['flash', 1 - proShare], ['pro', proShare]] as [ModelTier, number][]) {
+            const model = this.modelFor(tier);
+            const tierLines = targets * lines.length * share;
+            if (settings.mode === 'batch') {
+                // A batch makes one call per tier that any of its lines were triaged to.
+                const calls = targets * batches * (1 - Math.pow(1 - share, this.linesPerBatch));
+                add('translation', model, calls, calls * (promptTokens + briefTokens + batchTokens + 6 * lineTokens) + tierLines * lineTokens, tierLines * lineTokens * outputRatio);
+            } else {
+                add('translation', model, tierLines, tierLines * (promptTokens + briefTokens + (1 + ESTIMATE.contextLines) * lineTokens), tierLines * lineTokens * outputRatio);
+            }
+            const condensed = tierLines * ESTIMATE.condenseRate;
+            add('condensing', model, condensed * this.condenseRetries, condensed * this.condenseRetries * (promptTokens + 2 * lineTokens), condensed * this.condenseRetries * lineTokens);
+        }
+        if (settings.thinkingMode) {
+            const calls = targets * batches;
+            add('critique', this.proModel, 2 * calls, 2 * calls * (promptTokens + briefTokens + 3 * batchTokens), calls * batchTokens * (1 + outputRatio));
+        }
+        if (settings.qaRetranslate) {
+            const calls = targets * lines.length * ESTIMATE.qaRetranslateRate;
+            add('qa', this.proModel, calls, calls * (promptTokens + briefTokens + (1 + ESTIMATE.contextLines) * lineTokens), calls * lineTokens * outputRatio);
+        }
+        return meter.entries();
+    }
+
+    private modelFor(tier: ModelTier): string {
+        return tier === 'pro' ? this.proModel : this.flashModel;
+    }
+    
+    private async indexContent(jobId: string, lines: SrtLine[]): Promise<VectorRecord[]> {
+        const records = await this.embedScript(jobId, lines);
+        await this.vectorStore.upsert(jobId, records);
+        return records;
+    }
+
+    private async queryContext(jobId: string, text: string, store: VectorStore = this.vectorStore, topK: number = 5): Promise<string> {
+        const [embedding] = await this.llm.embed(this.embeddingModelName, [text], usage => this.meter.record('embedding', this.embeddingModelName, usage));
+        const matches = await store.query(jobId, embedding, topK);
+        return matches.map(match => match.text).join('\n') || 'No relevant context found.';
+    }
+
+    private async triageLines(lines: SrtLine[]): Promise<{ id: number, model: ModelTier }[]> {
+        const batches: SrtLine[][] = [];
+        for (let i = 0; i < lines.length; i += this.linesPerBatch) batches.push(lines.slice(i, i + this.linesPerBatch));
+        const results = await Promise.all(batches.map(batch => this.triageBatch(batch)));
+        return results.reduce((all, result) => all.concat(result), []);
+    }
+
+    private async triageBatch(batch: SrtLine[]): Promise<{ id: number, model: ModelTier }[]> {
+        const prompt = this.getTriageAgentPrompt(batch);
+        const result = await this.runJsonTool(this.flashModel, 'triage', prompt);
+        return result.classifications || [];
+    }
+    
+    private async cleanupIndex(jobId: string): Promise<void> {
+        await this.vectorStore.deleteJob(jobId);
+    }
+
+    public stringifyBlueprint(blueprint: TranslationBlueprint, targetLanguage: string): string {
+      const target = getLanguage(targetLanguage);
+      let brief = `**1. Plot & Theme Synthesis:**\n- Summary: ${blueprint.summary}\n- Key Themes: ${blueprint.keyPoints.join(', ')}\n\n`;
+      brief += `**2. Character Persona Profiles:**\n`;
+      blueprint.characterProfiles.forEach(p => { brief += `- Persona: ${p.personaName}\n  - Style: ${p.speakingStyle}\n  - Rule: ${p.voiceConsistencyRule}\n`; });
+      brief += '\n**3. "World Anvil" Glossary (Sacrosanct):**\n';
+      blueprint.glossary.forEach(g => { brief += `- Term: "${g.term}"\n  - Approved ${target.name}: "${g.proposedTranslation}"\n`; });
+      if (blueprint.culturalNuances && blueprint.culturalNuances.length > 0) {
+          brief += `\n**4. Cultural Nuances:**\n- ${blueprint.culturalNuances.join('\n- ')}\n`;
+      }
+      return brief;
+    }
+
+    // The first few lines each term occurs in, as context for choosing its translation.
+    private findEvidence(lines: SrtLine[], terms: string[]): Record<string, string[]> {
+        return terms.reduce<Record<string, string[]>>((evidence, term) => {
+            const needle = term.trim().toLowerCase();
+            evidence[term] = lines.filter(line => line.text.toLowerCase().includes(needle)).slice(0, this.evidenceLines).map(line => line.text);
+            return evidence;
+        }, {});
+    }
+
+    /**
+     * Runs a JSON task and checks the answer against the task's schema (see
+     * llm.schemas.ts). An answer that does not parse or does not fit goes back
+     * to the model with the problem spelled out, up to `jsonRepairRetries` times.
+     */
+    private async runJsonTool(modelName: string, task: JsonTask, prompt: string): Promise<any> {
+        let request = prompt;
+        for (let attempt = 0; ; attempt++) {
+            let answer: string;
+            let problem: string;
+            try {
+                const response = await this.llm.generateJson({ model: modelName, task, prompt: request, onUsage: usage => this.meter.record(TASK_STAGES[task], modelName, usage) });
+                const invalid = validateJson(response, TASK_SCHEMAS[task]);
+                if (!invalid) return response;
+                answer = JSON.stringify(response);
+                problem = invalid;
+            } catch (error) {
+                if (!(error instanceof LlmResponseFormatError)) {
+                    console.error(`Error running JSON tool with model ${modelName}:`, error);
+                    throw new Error("An internal AI error occurred while processing data.");
+                }
+                answer = error.raw;
+                problem = `The answer is not valid JSON (${error.message}).`;
+            }
+            if (attempt >= this.jsonRepairRetries) {
+                console.error(`The ${task} answer of model ${modelName} is still invalid after ${attempt} repairs: ${problem}`);
+                throw new Error(`AI returned malformed ${task} data.`);
+            }
+            console.warn(`Asking model ${modelName} to repair its ${task} answer: ${problem}`);
+            request = this.getJsonRepair_Prompt(prompt, answer, problem, TASK_SCHEMAS[task]);
+        }
+    }
+
+    private async runTextGen(modelName: string, prompt: string, stage: UsageStage): Promise<string> {
+        try {
+            return await this.llm.generateText({ model: modelName, prompt, onUsage: usage => this.meter.record(stage, modelName, usage) });
+        } catch (error) {
+            console.error(`Error running text generation with model ${modelName}:`, error);
+            throw new Error("An internal AI error occurred during translation.");
+        }
+    }
+
+    private getPhase1A_Prompt = (subtitle: string, source: LanguageProfile) => `Analyze the ${source.name} subtitle text. Extract technical terms, named entities, and idioms. For each, find a concise definition. Respond with a single JSON object: \`{ "keywords": [{ "term": string, "definition": string }] }\`. If none, return empty array. Text: """${subtitle}"""`;
+    private getPhase1B_Prompt = (keywords: Keyword[], source: LanguageProfile, target: LanguageProfile) => `For each ${source.name} term, find 3 common ${target.name} translations. Respond with a single JSON object: \`{ "grounded_keywords": [{ "term": string, "translations": [string] }] }\`. Terms: ${JSON.stringify(keywords)}`;
+    private getSceneNotes_Prompt = (subtitle: string, tone: string, source: LanguageProfile) => `Take notes on this part of a ${source.name} script for a translation team working in a '${tone}' tone. Write the notes in English and cover only what happens in this part; name characters exactly as the script does. Respond with a single JSON object: \`{ "summary": string, "keyPoints": [string], "characters": [{ "personaName": string, "speakingStyle": string, "voiceConsistencyRule": string }], "culturalNuances": [string] }\`.
+    **Script Part:** """${subtitle}"""`;
+    private getAnalysis_Prompt = (notes: ReturnType<typeof mergeSceneNotes>, tone: string, source: LanguageProfile, established: CharacterProfile[]) => `Combine notes taken from consecutive parts of one ${source.name} script into a single analysis for a translation team working in a '${tone}' tone. Write the analysis in English. Summarise the whole story, keep one profile per character (the same person may appear under slightly different names), and drop duplicate or trivial points. Respond with a single JSON object: \`{ "summary": string, "keyPoints": [string], "characterProfiles": [{ "personaName": string, "speakingStyle": string, "voiceConsistencyRule": string }], "culturalNuances": [string] }\`.${established.length === 0 ? '' : `
+    **Established Characters:** This script is an episode of a series. These profiles come from earlier episodes: ${JSON.stringify(established)}. Use the established name for anyone listed here. Only include an established character in 'characterProfiles' if this script shows something new about them, and then return their full profile with the addition.`}
+    **Part Summaries (in script order):**
+    ${notes.summaries.map((summary, i) => `${i + 1}. ${summary}`).join('\n    ')}
+    **Characters:** ${JSON.stringify(notes.characters)}
+    **Key Points:** ${JSON.stringify(notes.keyPoints)}
+    **Cultural Nuances:** ${JSON.stringify(notes.culturalNuances)}`;
+    private getGlossary_Prompt = (summary: string, tone: string, groundedKeywords: GroundedKeyword[], userGlossary: UserGlossaryItem[], evidence: Record<string, string[]>, source: LanguageProfile, target: LanguageProfile) => `Generate the ${target.name} glossary of a "Translation Blueprint" for this ${source.name} script. Respond with a single JSON object: \`{ "glossary": [{ "term": string, "definition": string, "proposedTranslation": string, "translationType": "Transliteration" | "Direct Translation" | "Hybrid" | "Common Usage" | "Adaptation", "justification": string, "alternatives": [string] }] }\`.
+    **Glossary Rules (CRITICAL):**
+    1.  The User-Provided Glossary is SACROSANCT. For every term in it, its translation MUST be used as the 'proposedTranslation'.
+    2.  For the remaining AI-Generated Keywords, select the best 'proposedTranslation' from its 'translations' array based on the '${tone}' tone and script context.
+    3.  Justify each choice with evidence from the script lines quoted for the term.
+    **Story Summary:** ${summary}
+    **User-Provided Glossary:** ${JSON.stringify(userGlossary)}
+    **AI-Generated Keywords:** ${JSON.stringify(groundedKeywords)}
+    **Script Lines per Term:** ${JSON.stringify(evidence)}`;
+  
+    private getTriageAgentPrompt = (batch: SrtLine[]) => `You are a linguistic triage agent. Classify each subtitle line's complexity. Respond with a JSON array ONLY: \`{ "classifications": [{ "id": number, "model": "flash" | "pro" }] }\`.
+    - Use "pro" for lines with idioms, complex grammar, slang, or deep emotional/cultural nuance.
+    - Use "flash" for simple, direct, or declarative sentences.
+    Input for Classification:
+    ---
+    ${batch.map(l => `${l.sequence} | ${l.text}`).join('\n')}
+    ---
+    Produce the JSON output.`;
+
+    private getTimingNote = (line: SrtLine, constraints: SubtitleConstraints) => `This cue is on screen for ${line.duration.toFixed(1)}s, so the translation must be at most ${characterBudget(line.duration, constraints)} characters (reading speed of ${constraints.maxCps} characters per second), fitting on ${constraints.maxLinesPerCue} lines of ${constraints.maxCharsPerLine} characters. Prefer a shorter natural phrasing over a literal one that runs long.`;
+
+    private getMemoryExamples = (examples: MemoryMatch[]) => examples.length === 0 ? '' : `Translation Memory (approved translations of similar lines; reuse their terminology and phrasing where they apply):
+---
+${examples.map(example => `${JSON.stringify(example.sourceText)} => ${JSON.stringify(example.targetText)}`).join('\n')}
+---
+`;
+
+    private getStep2_Prompt = (line: SrtLine, context: string, brief: string, settings: TranslationSettings, examples: MemoryMatch[]) => `You are a Master Transcreator. Transcreate ONLY the "Current Line" from ${getLanguage(settings.sourceLanguage).name} into fluent ${getLanguage(settings.targetLanguage).name}, adhering to the "Project Brief" and '${settings.tone}' tone. Use the "Long-Term Memory" for context.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Long-Term Memory (Context from script):
+---
+${context}
+---
+${this.getMemoryExamples(examples)}Current Line: "${line.markup?.source ?? line.text}"
+---
+${this.getTimingNote(line, settings.constraints)}
+${line.markup ? `${MARKUP_INSTRUCTIONS}\n` : ''}Provide ONLY the single line of ${getLanguage(settings.targetLanguage).name} transcreation.`;
+
+    private getBatchTranslation_Prompt = (lines: SrtLine[], surrounding: SrtLine[], context: string, brief: string, settings: TranslationSettings, examples: MemoryMatch[]) => `You are a Master Transcreator. Transcreate each of the "Lines to Translate" from ${getLanguage(settings.sourceLanguage).name} into fluent ${getLanguage(settings.targetLanguage).name}, adhering to the "Project Brief" and '${settings.tone}' tone. Use the "Scene" and "Long-Term Memory" for context only. Respond with a single JSON object: \`{ "translations": [{ "sequence": number, "translation": string }] }\` containing exactly one entry per line to translate, keyed by its sequence.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Long-Term Memory (Context from script):
+---
+${context}
+---
+${this.getMemoryExamples(examples)}Scene (surrounding lines, do not translate unless listed below):
+---
+${surrounding.map(l => `${l.sequence} | ${l.text}`).join('\n')}
+---
+Lines to Translate (JSON):
+${JSON.stringify(lines.map(l => ({ sequence: l.sequence, text: l.markup?.source ?? l.text, maxCharacters: characterBudget(l.duration, settings.constraints) })))}
+---
+Each line has a "maxCharacters" budget derived from how long it stays on screen (${settings.constraints.maxCps} characters per second, at most ${settings.constraints.maxLinesPerCue} lines of ${settings.constraints.maxCharsPerLine} characters). Keep every translation within its budget, preferring a shorter natural phrasing over a literal one that runs long.
+${lines.some(l => l.markup) ? `${MARKUP_INSTRUCTIONS}\n` : ''}Produce the JSON output.`;
+
+    private getCritique_Prompt = (lines: SrtLine[], drafts: Map<number, string>, surrounding: SrtLine[], brief: string, settings: TranslationSettings) => `You are a demanding subtitle editor reviewing draft ${getLanguage(settings.targetLanguage).name} transcreations of ${getLanguage(settings.sourceLanguage).name} lines. Check each draft against the "Project Brief" (glossary renderings, character voices, cultural notes), the '${settings.tone}' tone, faithfulness to the source, natural ${getLanguage(settings.targetLanguage).name} phrasing and its "maxCharacters" budget. Respond with a single JSON object: \`{ "critiques": [{ "sequence": number, "issues": [string] }] }\` with one entry per draft; leave "issues" empty for a draft that needs no change. Each issue must be one short, specific sentence a translator can act on.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Scene (surrounding lines, for context only):
+---
+${surrounding.map(l => `${l.sequence} | ${l.text}`).join('\n')}
+---
+Drafts to Review (JSON):
+${JSON.stringify(lines.map(l => ({ sequence: l.sequence, source: l.markup?.source ?? l.text, draft: drafts.get(l.sequence), maxCharacters: characterBudget(l.duration, settings.constraints) })))}
+---
+Produce the JSON output.`;
+
+    private getRefine_Prompt = (lines: SrtLine[], drafts: Map<number, string>, notes: Map<number, string[]>, brief: string, settings: TranslationSettings) => `You are a Master Transcreator. An editor reviewed your draft ${getLanguage(settings.targetLanguage).name} transcreations and raised the issues listed with each line. Rewrite every line so that all of its issues are resolved, adhering to the "Project Brief" and '${settings.tone}' tone and staying within "maxCharacters". Respond with a single JSON object: \`{ "translations": [{ "sequence": number, "translation": string }] }\` containing exactly one entry per line.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Lines to Refine (JSON):
+${JSON.stringify(lines.map(l => ({ sequence: l.sequence, text: l.markup?.source ?? l.text, draft: drafts.get(l.sequence), issues: notes.get(l.sequence), maxCharacters: characterBudget(l.duration, settings.constraints) })))}
+---
+${lines.some(l => l.markup) ? `${MARKUP_INSTRUCTIONS}\n` : ''}Produce the JSON output.`;
+
+    private getQaFix_Prompt = (line: TranslatedSrtLine, context: string, brief: string, settings: TranslationSettings, issues: QaIssue[]) => `You are a subtitle quality reviewer. The ${getLanguage(settings.targetLanguage).name} translation of the "Current Line" failed these checks:
+${issues.map(issue => `- ${issue.message}`).join('\n')}
+Write a corrected ${getLanguage(settings.sourceLanguage).name} to ${getLanguage(settings.targetLanguage).name} transcreation that fixes every problem, adhering to the "Project Brief" and '${settings.tone}' tone. Use the approved glossary renderings exactly and translate everything the viewer reads.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Long-Term Memory (Context from script):
+---
+${context}
+---
+Previous Translation: "${line.translatedText}"
+Current Line: "${line.markup?.source ?? line.text}"
+---
+${this.getTimingNote(line, settings.constraints)}
+${line.markup ? `${MARKUP_INSTRUCTIONS}\n` : ''}Provide ONLY the single corrected line of ${getLanguage(settings.targetLanguage).name} transcreation, with no quotes, labels or comments.`;
+
+    private getAlternatives_Prompt = (line: SrtLine, current: string, scene: SrtLine[], context: string, brief: string, settings: TranslationSettings, examples: MemoryMatch[], options: RetranslateOptions) => `You are a Master Transcreator helping a subtitle reviewer. Offer exactly ${options.alternatives} distinct ${getLanguage(settings.targetLanguage).name} transcreations of the "Current Line" from ${getLanguage(settings.sourceLanguage).name}, adhering to the "Project Brief" and '${settings.tone}' tone. The reviewer was not satisfied with the "Current Translation", so each alternative must differ from it and from each other. Respond with a single JSON object: \`{ "alternatives": [string] }\`.
+${getLanguage(settings.targetLanguage).styleNotes}
+Project Brief:
+---
+${brief}
+---
+Long-Term Memory (Context from script):
+---
+${context}
+---
+${this.getMemoryExamples(examples)}Scene (surrounding lines, for context only):
+---
+${scene.map(l => `${l.sequence} | ${l.text}`).join('\n')}
+---
+Current Translation: "${current}"
+${options.instruction ? `Reviewer's Instruction: ${options.instruction}\n` : ''}Current Line: "${line.markup?.source ?? line.text}"
+---
+${this.getTimingNote(line, settings.constraints)}
+${line.markup ? `${MARKUP_INSTRUCTIONS}\n` : ''}Produce the JSON output.`;
+
+    private getJsonRepair_Prompt = (prompt: string, answer: string, problem: string, schema: JsonSchema) => `${prompt}
+---
+Your previous answer to this request could not be used: ${problem}
+Previous Answer: """${answer.slice(0, 4000)}"""
+Respond again with a single JSON object that matches this JSON Schema exactly: ${JSON.stringify(schema)}`;
+
+    private getCondense_Prompt = (line: SrtLine, translation: string, budget: number, settings: TranslationSettings) => `You are a subtitle editor. The ${getLanguage(settings.targetLanguage).name} translation below is too long to be read in the ${line.duration.toFixed(1)}s the cue is on screen. Rewrite it in at most ${budget} characters, keeping its meaning, the '${settings.tone}' tone and every name and glossary term. Drop filler, repetition and anything the viewer can infer from the picture.
+Original Line: "${line.markup?.source ?? line.text}"
+Translation to Shorten: "${translation}"
+---
+${line.markup ? `${MARKUP_INSTRUCTIONS}\n` : ''}Provide ONLY the shortened ${getLanguage(settings.targetLanguage).name} line.`;
+}
@@ -0,0 +1,444 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'sbv';
+
+/** Format-specific cue data that the model never sees but that must survive a round trip. */
+export interface CueMeta {
+  identifier?: string;
+  settings?: string;
+  style?: string;
+  assFields?: Record<string, string>;
+}
+
+/** Inline formatting lifted out of a cue: `source` is the text with placeholders, `tags` maps each placeholder id to the original markup. */
+export interface LineMarkup {
+  source: string;
+  tags: Record<string, { open: string; close?: string }>;
+}
+
+export interface SrtLine {
+  sequence: number;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  // Plain text without markup; used for analysis, triage and memory.
+  text: string;
+  markup?: LineMarkup;
+  cue?: CueMeta;
+}
+
+export interface ValidationIssue {
+  code: string;
+  message: string;
+  // 1-based line number in the uploaded file, when the issue is tied to one.
+  line?: number;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  format: SubtitleFormat;
+  encoding: string;
+  cueCount: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  lines: SrtLine[];
+  // Everything before the first cue that has to be written back: the WEBVTT/STYLE blocks, or ASS script info and styles.
+  header?: string;
+}
+
+export interface UserGlossaryItem {
+  term: string;
+  translation: string;
+  // Target language code; untagged entries apply to the job's first target language.
+  language?: string;
+}
+
+export interface GlossaryEntryInput {
+  term: string;
+  translation: string;
+  note?: string;
+}
+
+export interface GlossaryEntry extends GlossaryEntryInput {
+  id: string;
+}
+
+// A named, versioned term list shared across jobs; `version` increases with every change to its entries.
+export interface TeamGlossary {
+  id: string;
+  name: string;
+  description: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  version: number;
+  entries: GlossaryEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GlossarySummary = Omit<TeamGlossary, 'entries'> & { entryCount: number };
+
+// The glossary version a job was started with.
+export interface GlossaryRef {
+  id: string;
+  name: string;
+  version: number;
+  targetLanguage: string;
+}
+
+// A term the model added to a job's blueprint that no glossary used by the job covers yet.
+export interface GlossarySuggestion {
+  language: string;
+  term: string;
+  translation: string;
+  definition: string;
+}
+
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  // The first characters of the user's API key; the key itself is only shown when it is issued.
+  keyPrefix: string;
+  // Null means the server default.
+  dailyJobQuota: number | null;
+  dailyLineQuota: number | null;
+  createdAt: string;
+}
+
+// Today's usage against the limits that apply to a user; limits are null for administrators.
+export interface QuotaUsage {
+  day: string;
+  jobs: number;
+  lines: number;
+  jobLimit: number | null;
+  lineLimit: number | null;
+}
+
+export interface Correction {
+  originalEnglish: string;
+  aiTranslation: string;
+  userCorrection: string;
+  jobId: string;
+  createdAt: Date;
+}
+
+export type TranslationMode = 'batch' | 'line';
+export type ModelTier = 'flash' | 'pro';
+// What produced a line's translation: a model tier, an approved translation memory segment reused as-is, or a person
+// (a review edit or an imported XLIFF file).
+export type LineOrigin = ModelTier | 'memory' | 'human';
+
+export interface SubtitleConstraints {
+  maxCps: number;
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+}
+
+export interface TranslationSettings {
+  tone: string;
+  mode: TranslationMode;
+  outputFormat: SubtitleFormat;
+  constraints: SubtitleConstraints;
+  // Language codes, see languages.ts.
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Send cues flagged by the QA pass back to the model once.
+  qaRetranslate: boolean;
+  // Draft each batch, have a critic review the drafts, then refine the lines it objected to.
+  thinkingMode: boolean;
+}
+
+export type ComplianceIssue = 'cps' | 'line_length' | 'line_count';
+
+export interface CueCompliance {
+  sequence: number;
+  characters: number;
+  cps: number;
+  lineCount: number;
+  longestLine: number;
+  // True when the first rendering was over budget and the model was asked to shorten it.
+  condensed: boolean;
+  issues: ComplianceIssue[];
+}
+
+export interface ComplianceReport {
+  constraints: SubtitleConstraints;
+  compliantCues: number;
+  totalCues: number;
+  cues: CueCompliance[];
+}
+
+export type QaIssueType = 'glossary' | 'inconsistent' | 'untranslated' | 'empty' | 'chatter';
+
+export interface QaIssue {
+  sequence: number;
+  type: QaIssueType;
+  message: string;
+  // The rendering the cue should contain: the approved glossary translation or the majority rendering of the line.
+  expected?: string;
+}
+
+export interface QaReport {
+  language: string;
+  checkedCues: number;
+  flaggedCues: number;
+  // Cues sent back to the model (or aligned with the majority rendering) before this report was taken.
+  retranslated: number[];
+  issues: QaIssue[];
+}
+
+export interface TranslatedSrtLine extends SrtLine {
+  translatedText: string;
+}
+export type TranslationType = 'Transliteration' | 'Direct Translation' | 'Hybrid' | 'Common Usage' | 'Adaptation';
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  proposedTranslation: string;
+  translationType: TranslationType;
+  justification: string;
+  alternatives: string[];
+}
+export interface CharacterProfile {
+  personaName: string;
+  speakingStyle: string;
+  voiceConsistencyRule: string;
+}
+export interface TranslationBlueprint {
+  summary: string;
+  keyPoints: string[];
+  characterProfiles: CharacterProfile[];
+  culturalNuances: string[];
+  glossary: GlossaryTerm[];
+}
+// One blueprint per target language; the analysis fields are shared, only the glossary differs.
+export type BlueprintSet = Record<string, TranslationBlueprint>;
+
+// What a project carries from one episode to the next: the parts of a blueprint that outlive a single script.
+export interface SeriesBlueprint {
+  characterProfiles: CharacterProfile[];
+  culturalNuances: string[];
+  // Keyed by target language.
+  glossaries: Record<string, GlossaryTerm[]>;
+}
+
+export interface Project {
+  id: string;
+  // The user who created the project; only they and administrators can see it. Null for projects from before owners were recorded.
+  ownerId: string | null;
+  name: string;
+  description: string;
+  sourceLanguage: string;
+  version: number;
+  blueprint: SeriesBlueprint;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectSummary = Omit<Project, 'blueprint'> & { characterCount: number; termCount: number; episodeCount: number };
+
+export interface TermChange {
+  term: string;
+  from: string;
+  to: string;
+}
+
+// What one episode added to (or changed in) its project's series blueprint.
+export interface EpisodeChanges {
+  addedCharacters: CharacterProfile[];
+  updatedCharacters: CharacterProfile[];
+  addedNuances: string[];
+  addedTerms: Record<string, GlossaryTerm[]>;
+  changedTerms: Record<string, TermChange[]>;
+  // Differing translations of established terms that no reviewer approved; the series kept its own.
+  proposedTerms: Record<string, TermChange[]>;
+}
+
+export interface ProjectEpisode {
+  projectId: string;
+  jobId: string;
+  episode: string;
+  // The project version this episode's blueprint produced.
+  version: number;
+  changes: EpisodeChanges;
+  createdAt: string;
+}
+
+export interface Keyword {
+  term: string;
+  definition: string;
+}
+export interface GroundedKeyword extends Keyword {
+  translations: string[];
+}
+
+// What blueprint generation extracts from one chunk of a long script before the chunks are merged.
+export interface SceneNotes {
+  summary: string;
+  keyPoints: string[];
+  characters: CharacterProfile[];
+  culturalNuances: string[];
+}
+
+// The part of a job a model call was made for.
+export type UsageStage = 'blueprint' | 'triage' | 'translation' | 'critique' | 'condensing' | 'qa' | 'retranslation' | 'embedding';
+
+// Calls and tokens of one model within one stage of a job.
+export interface UsageEntry {
+  stage: UsageStage;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD, counting only models that have a price.
+  cost: number;
+}
+
+export interface UsageSummary {
+  // `cost` is null for a model without a price.
+  entries: (UsageEntry & { cost: number | null })[];
+  stages: Partial<Record<UsageStage, UsageTotals>>;
+  total: UsageTotals;
+  unpricedModels: string[];
+}
+
+// What a job is expected to use before it runs.
+export interface UsageEstimate {
+  cueCount: number;
+  targetLanguages: string[];
+  sourceTokens: number;
+  // Expected share of lines the triage agent sends to the pro tier: what it decided on earlier jobs, or a default before there are any.
+  proShare: number;
+  proShareSource: 'history' | 'default';
+  usage: UsageSummary;
+  // Jobs estimated above this many USD only start with `acceptEstimate`.
+  approvalThreshold: number;
+  requiresApproval: boolean;
+}
+
+export type JobEvent =
+  | { type: 'progress'; payload: { stage: string } }
+  | { type: 'usage'; payload: UsageSummary }
+  | { type: 'blueprint_ready'; payload: BlueprintSet }
+  | { type: 'awaiting_approval'; payload: BlueprintSet }
+  | { type: 'qa_report'; payload: QaReport }
+  | { type: 'completed'; payload: JobResult }
+  | { type: 'failed'; payload: { error: string } };
+
+export interface TargetTranslation {
+  language: string;
+  result: string;
+  compliance: ComplianceReport;
+  qa?: QaReport;
+  // What produced each cue's text, keyed by source sequence. Missing for jobs from before origins were recorded.
+  origins?: Record<number, LineOrigin>;
+}
+
+// `result`, `compliance` and `language` mirror the first target so single-language clients keep working.
+export interface JobResult {
+  result: string;
+  format: SubtitleFormat;
+  language: string;
+  compliance?: ComplianceReport;
+  translations: TargetTranslation[];
+}
+
+// One row of the review grid: a source cue next to its translation, with the checks that flagged it.
+export interface ReviewCue {
+  sequence: number;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  sourceText: string;
+  // The translation as it appears in the output file, including its markup.
+  text: string;
+  cps: number;
+  complianceIssues: ComplianceIssue[];
+  qaIssues: QaIssue[];
+  // Present when thinking mode rewrote the cue.
+  critique?: Pick<LineCritique, 'draft' | 'issues'>;
+}
+
+// New renderings proposed for one cue of a finished job. Texts carry the output format's markup, like ReviewCue.text.
+export interface CueAlternatives {
+  sequence: number;
+  sourceText: string;
+  currentText: string;
+  // The tier that produced the alternatives: the caller's override, or the triage decision.
+  tier: ModelTier;
+  alternatives: string[];
+}
+
+// What an XLIFF file changes in one target of a job. `unknownSequences` are units that match no cue.
+export interface XliffMerge {
+  language: string;
+  changes: { sequence: number; from: string; to: string }[];
+  unchanged: number;
+  unknownSequences: number[];
+  // False for a dry run.
+  applied: boolean;
+}
+
+// One cue of an accepted review, aligned with its source line and the model's output.
+export interface ReviewedCue {
+  sequence: number;
+  sourceText: string;
+  aiText: string;
+  userText: string;
+  changed: boolean;
+}
+
+// Why thinking mode changed a line: the critic's objections to the draft and the refined text that replaced it.
+export interface LineCritique {
+  jobId: string;
+  language: string;
+  sequence: number;
+  sourceText: string;
+  draft: string;
+  issues: string[];
+  // Before any condensing for the reading-speed budget.
+  refined: string;
+  createdAt?: Date;
+}
+
+export interface LineCorrection {
+  jobId: string;
+  language: string;
+  sequence: number;
+  sourceText: string;
+  aiText: string;
+  userText: string;
+  // Character-level Levenshtein distance between aiText and userText.
+  editDistance: number;
+  // editDistance relative to the longer of the two texts, 0..1.
+  changeRatio: number;
+  createdAt?: Date;
+}
+
+export interface JobSummary {
+  jobId: string;
+  state: string;
+  stage: string | null;
+  tone: string;
+  sourceLanguage: string;
+  targetLanguages: string[];
+  ownerId: string | null;
+  projectId: string | null;
+  episode: string | null;
+  error: string | null;
+  attemptsMade: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
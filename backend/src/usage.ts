@@ -0,0 +1,154 @@
+import { TokenUsageModel } from './db';
+import { JsonTask, ModelTiers, TokenUsage } from './llm.provider';
+import { UsageEntry, UsageStage, UsageSummary, UsageTotals } from './types';
+
+/** USD per million tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export const TASK_STAGES: Record<JsonTask, UsageStage> = {
+    keywords: 'blueprint',
+    scene_notes: 'blueprint',
+    analysis: 'blueprint',
+    grounding: 'blueprint',
+    glossary: 'blueprint',
+    triage: 'triage',
+    batch_translation: 'translation',
+    critique: 'critique',
+    refinement: 'critique',
+    alternatives: 'retranslation',
+};
+
+// List prices when this was written; LLM_PRICES overrides them or adds models, e.g. {"llama3.1": {"input": 0, "output": 0}}.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'text-embedding-004': { input: 0, output: 0 },
+    'mock-flash': { input: 0, output: 0 },
+    'mock-pro': { input: 0, output: 0 },
+    'mock-embedding': { input: 0, output: 0 },
+};
+const MODEL_PRICES = loadPrices();
+
+export const COST_APPROVAL_THRESHOLD = parseFloat(process.env.COST_APPROVAL_THRESHOLD_USD || '5');
+// Share of pro lines assumed until some jobs have been translated.
+const DEFAULT_PRO_SHARE = 0.3;
+
+const entryKey = (stage: string, model: string) => `${stage}|${model}`;
+const roundCost = (usd: number) => Math.round(usd * 1e6) / 1e6;
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+/**
+ * Adds up the model calls of one job. What was recorded since the last
+ * takePending() is also kept apart, so callers can store just the increase.
+ * Given a `stage`, every call counts towards it whatever stage the worker
+ * reports, which keeps retranslations after the job out of the job's own stages.
+ */
+export class UsageMeter {
+    private readonly totals = new Map<string, UsageEntry>();
+    private pending = new Map<string, UsageEntry>();
+
+    constructor(private readonly stage?: UsageStage) {}
+
+    /** Counts usage stored earlier, e.g. by a previous attempt, without marking it as pending. */
+    restore(entries: UsageEntry[]): void {
+        for (const entry of entries) addEntry(this.totals, entry);
+    }
+
+    record(stage: UsageStage, model: string, usage: TokenUsage, calls = 1): void {
+        const entry: UsageEntry = { stage: this.stage ?? stage, model, calls, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+        addEntry(this.totals, entry);
+        addEntry(this.pending, entry);
+    }
+
+    entries(): UsageEntry[] {
+        return Array.from(this.totals.values());
+    }
+
+    takePending(): UsageEntry[] {
+        const entries = Array.from(this.pending.values());
+        this.pending = new Map();
+        return entries;
+    }
+}
+
+/** Adds the entries to what is stored for the job. */
+export async function saveUsage(jobId: string, entries: UsageEntry[]): Promise<void> {
+    await Promise.all(entries.map(entry => TokenUsageModel.updateOne(
+        { jobId, stage: entry.stage, model: entry.model },
+        { $inc: { calls: entry.calls, inputTokens: entry.inputTokens, outputTokens: entry.outputTokens } },
+        { upsert: true }
+    )));
+}
+
+export async function listUsage(jobId: string): Promise<UsageEntry[]> {
+    const docs = await TokenUsageModel.find({ jobId }).sort({ stage: 1, model: 1 }).lean();
+    return docs.map((doc: any) => ({ stage: doc.stage, model: doc.model, calls: doc.calls, inputTokens: doc.inputTokens, outputTokens: doc.outputTokens }));
+}
+
+/** Prices each entry and adds them up per stage and overall. Models without a price count as free and are listed in `unpricedModels`. */
+export function summarizeUsage(entries: UsageEntry[], prices: Record<string, ModelPrice> = MODEL_PRICES): UsageSummary {
+    const priced = entries.map(entry => {
+        const price = prices[entry.model];
+        return { ...entry, cost: price ? roundCost((entry.inputTokens * price.input + entry.outputTokens * price.output) / 1e6) : null };
+    });
+    const stages: Partial<Record<UsageStage, UsageTotals>> = {};
+    const total = emptyTotals();
+    for (const entry of priced) {
+        const stage = stages[entry.stage] ?? (stages[entry.stage] = emptyTotals());
+        for (const totals of [stage, total]) {
+            totals.calls += entry.calls;
+            totals.inputTokens += entry.inputTokens;
+            totals.outputTokens += entry.outputTokens;
+            totals.cost = roundCost(totals.cost + (entry.cost ?? 0));
+        }
+    }
+    const unpricedModels = priced.filter(entry => entry.cost === null).map(entry => entry.model).filter((model, i, all) => all.indexOf(model) === i);
+    return { entries: priced, stages, total, unpricedModels };
+}
+
+/**
+ * The share of lines the triage agent is expected to send to the pro tier,
+ * going by the translation output of the two tiers over all earlier jobs.
+ * Falls back to DEFAULT_PRO_SHARE before anything was translated, or when
+ * both tiers are the same model.
+ */
+export async function expectedProShare(tiers: ModelTiers): Promise<{ share: number, source: 'history' | 'default' }> {
+    if (tiers.flash === tiers.pro) return { share: DEFAULT_PRO_SHARE, source: 'default' };
+    const totals: { _id: string, outputTokens: number }[] = await TokenUsageModel.aggregate([
+        { $match: { stage: 'translation', model: { $in: [tiers.flash, tiers.pro] } } },
+        { $group: { _id: '$model', outputTokens: { $sum: '$outputTokens' } } },
+    ]);
+    const outputOf = (model: string) => totals.find(total => total._id === model)?.outputTokens ?? 0;
+    const all = outputOf(tiers.flash) + outputOf(tiers.pro);
+    return all > 0 ? { share: outputOf(tiers.pro) / all, source: 'history' } : { share: DEFAULT_PRO_SHARE, source: 'default' };
+}
+
+function addEntry(into: Map<string, UsageEntry>, entry: UsageEntry): void {
+    const key = entryKey(entry.stage, entry.model);
+    const current = into.get(key);
+    into.set(key, current ? {
+        ...current,
+        calls: current.calls + entry.calls,
+        inputTokens: current.inputTokens + entry.inputTokens,
+        outputTokens: current.outputTokens + entry.outputTokens,
+    } : { ...entry });
+}
+
+function loadPrices(): Record<string, ModelPrice> {
+    if (!process.env.LLM_PRICES) return DEFAULT_PRICES;
+    try {
+        const overrides: Record<string, ModelPrice> = JSON.parse(process.env.LLM_PRICES);
+        const valid = Object.entries(overrides).filter(([model, price]) => {
+            const ok = typeof price?.input === 'number' && typeof price?.output === 'number' && price.input >= 0 && price.output >= 0;
+            if (!ok) console.warn(`Ignoring the LLM_PRICES entry for ${model}: expected { "input": number, "output": number } in USD per million tokens.`);
+            return ok;
+        });
+        return valid.reduce((prices, [model, price]) => ({ ...prices, [model]: { input: price.input, output: price.output } }), DEFAULT_PRICES);
+    } catch (error: any) {
+        console.warn(`Ignoring LLM_PRICES, which is not valid JSON: ${error.message}`);
+        return DEFAULT_PRICES;
+    }
+}
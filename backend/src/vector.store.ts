@@ -0,0 +1,45 @@
+import { PineconeVectorStore } from './pinecone.store';
+import { InMemoryVectorStore } from './memory.store';
+
+export interface VectorRecord {
+    id: string;
+    values: number[];
+    text: string;
+}
+
+export interface VectorMatch {
+    id: string;
+    score: number;
+    text: string;
+}
+
+/** Long-term script memory. Every record belongs to exactly one job so a job's vectors can be dropped as a unit. */
+export interface VectorStore {
+    upsert(jobId: string, records: VectorRecord[]): Promise<void>;
+    query(jobId: string, vector: number[], topK: number): Promise<VectorMatch[]>;
+    deleteJob(jobId: string): Promise<void>;
+}
+
+let sharedStore: VectorStore | null = null;
+
+// One store per process: the in-memory implementation must be shared by every job the worker runs.
+export function getVectorStore(): VectorStore {
+    if (!sharedStore) sharedStore = createVectorStore();
+    return sharedStore;
+}
+
+function createVectorStore(): VectorStore {
+    const { VECTOR_STORE, PINECONE_API_KEY, PINECONE_INDEX_NAME } = process.env;
+    const kind = (VECTOR_STORE || (PINECONE_API_KEY ? 'pinecone' : 'memory')).toLowerCase();
+    switch (kind) {
+        case 'pinecone':
+            if (!PINECONE_API_KEY || !PINECONE_INDEX_NAME) {
+                throw new Error('PINECONE_API_KEY and PINECONE_INDEX_NAME are required when VECTOR_STORE is pinecone.');
+            }
+            return new PineconeVectorStore(PINECONE_API_KEY, PINECONE_INDEX_NAME);
+        case 'memory':
+            return new InMemoryVectorStore();
+        default:
+            throw new Error(`Unknown VECTOR_STORE "${VECTOR_STORE}". Expected pinecone or memory.`);
+    }
+}
@@ -0,0 +1,5 @@
+import 'dotenv/config';
+import { startWorker } from './jobs';
+import { connectDB } from './db';
+
+connectDB().then(startWorker);
@@ -0,0 +1,85 @@
+import { Component, ChangeDetectionStrategy, EventEmitter, Input, Output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+export type TranslationType = 'Transliteration' | 'Direct Translation' | 'Hybrid' | 'Common Usage' | 'Adaptation';
+export type GlossaryTerm = { term: string, definition: string, proposedTranslation: string, translationType: TranslationType, justification: string, alternatives: string[] };
+export type CharacterProfile = { personaName: string, speakingStyle: string, voiceConsistencyRule: string };
+export type TranslationBlueprint = { summary: string, keyPoints: string[], characterProfiles: CharacterProfile[], culturalNuances: string[], glossary: GlossaryTerm[] };
+export type BlueprintSet = Record<string, TranslationBlueprint>;
+
+// Edits the blueprints of a job paused for approval. Works on a private copy; nothing is sent until Approve.
+@Component({
+  selector: 'app-blueprint-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './blueprint-editor.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlueprintEditorComponent {
+  @Input() languageNames: Record<string, string> = {};
+  @Input() submitting = false;
+  @Input() set blueprints(value: BlueprintSet) {
+    this.draft = JSON.parse(JSON.stringify(value));
+    this.languages = Object.keys(value);
+    this.activeLanguage.set(this.languages[0] ?? '');
+  }
+  @Output() approve = new EventEmitter<BlueprintSet>();
+
+  readonly translationTypes: TranslationType[] = ['Transliteration', 'Direct Translation', 'Hybrid', 'Common Usage', 'Adaptation'];
+  draft: BlueprintSet = {};
+  languages: string[] = [];
+  activeLanguage = signal<string>('');
+
+  get active(): TranslationBlueprint {
+    return this.draft[this.activeLanguage()];
+  }
+
+  // The analysis is shared between targets, so summary, profiles and nuances are edited for all of them at once.
+  setSummary(value: string): void {
+    this.languages.forEach(language => this.draft[language].summary = value);
+  }
+
+  listText(field: 'keyPoints' | 'culturalNuances'): string {
+    return this.active[field].join('\n');
+  }
+
+  setList(field: 'keyPoints' | 'culturalNuances', value: string): void {
+    const items = value.split('\n').map(item => item.trim()).filter(Boolean);
+    this.languages.forEach(language => this.draft[language][field] = [...items]);
+  }
+
+  setProfile(index: number, field: keyof CharacterProfile, value: string): void {
+    this.languages.forEach(language => this.draft[language].characterProfiles[index][field] = value);
+  }
+
+  addProfile(): void {
+    this.languages.forEach(language => this.draft[language].characterProfiles.push({ personaName: '', speakingStyle: '', voiceConsistencyRule: '' }));
+  }
+
+  removeProfile(index: number): void {
+    this.languages.forEach(language => this.draft[language].characterProfiles.splice(index, 1));
+  }
+
+  setTerm(index: number, field: 'term' | 'proposedTranslation' | 'translationType' | 'definition', value: string): void {
+    (this.active.glossary[index] as any)[field] = value;
+  }
+
+  // Picking an alternative swaps it with the current choice, so the original proposal stays one click away.
+  useAlternative(index: number, alternative: string): void {
+    const term = this.active.glossary[index];
+    term.alternatives = [term.proposedTranslation, ...term.alternatives.filter(a => a !== alternative)].filter(Boolean);
+    term.proposedTranslation = alternative;
+  }
+
+  addTerm(): void {
+    this.active.glossary.push({ term: '', definition: '', proposedTranslation: '', translationType: 'Direct Translation', justification: 'Added during blueprint review.', alternatives: [] });
+  }
+
+  removeTerm(index: number): void {
+    this.active.glossary.splice(index, 1);
+  }
+
+  submit(): void {
+    this.approve.emit(JSON.parse(JSON.stringify(this.draft)));
+  }
+}
@@ -0,0 +1,163 @@
+import { Component, ChangeDetectionStrategy, EventEmitter, Input, Output, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ApiService } from '../../services/api.service';
+
+export type SubtitleConstraints = { maxCps: number, maxCharsPerLine: number, maxLinesPerCue: number };
+export type ReviewCue = {
+  sequence: number, startTime: string, endTime: string, duration: number, sourceText: string, text: string, cps: number,
+  complianceIssues: string[], qaIssues: { sequence: number, type: string, message: string }[],
+  critique?: { draft: string, issues: string[] },
+};
+export type ReviewRow = ReviewCue & { original: string, approved: boolean };
+export type ReviewFilter = 'all' | 'flagged' | 'edited' | 'unapproved' | 'approved';
+
+// Cue-by-cue review of one target language. Rows are owned by the parent so edits survive switching languages;
+// only text and approval are editable, the output file is rebuilt from them on the server.
+@Component({
+  selector: 'app-review-grid',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './review-grid.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ReviewGridComponent {
+  private api = inject(ApiService);
+
+  @Input() jobId = '';
+  @Input() language = '';
+  @Input() direction: 'ltr' | 'rtl' = 'ltr';
+  @Input() constraints: SubtitleConstraints = { maxCps: 17, maxCharsPerLine: 42, maxLinesPerCue: 2 };
+  @Input() set rows(value: ReviewRow[]) {
+    this.allRows.set(value);
+  }
+  @Output() rowsChange = new EventEmitter<ReviewRow[]>();
+
+  readonly filters: { value: ReviewFilter, label: string }[] = [
+    { value: 'all', label: 'All' }, { value: 'flagged', label: 'Flagged' }, { value: 'edited', label: 'Edited' },
+    { value: 'unapproved', label: 'Not approved' }, { value: 'approved', label: 'Approved' },
+  ];
+  allRows = signal<ReviewRow[]>([]);
+  search = signal<string>('');
+  filter = signal<ReviewFilter>('all');
+  // State of the retranslate action, keyed by cue sequence.
+  instructionFor = signal<number | null>(null);
+  busy = signal<number[]>([]);
+  errors = signal<Record<number, string>>({});
+
+  visibleRows = computed(() => {
+    const query = this.search().trim().toLowerCase();
+    return this.allRows().filter(row => this.matchesFilter(row, this.filter())
+      && (!query || row.sourceText.toLowerCase().includes(query) || row.text.toLowerCase().includes(query) || String(row.sequence) === query));
+  });
+  approvedCount = computed(() => this.allRows().filter(row => row.approved).length);
+
+  cps(row: ReviewRow): number {
+    return Math.round(this.visibleText(row.text).replace(/\n/g, '').length / Math.max(row.duration, 0.001) * 10) / 10;
+  }
+
+  longestLine(row: ReviewRow): number {
+    return Math.max(...this.visibleText(row.text).split('\n').map(line => line.length));
+  }
+
+  lineCount(row: ReviewRow): number {
+    return row.text.split('\n').length;
+  }
+
+  // Compliance is recomputed as the reviewer types; QA flags describe the machine output and stay until the cue changes.
+  overLimit(row: ReviewRow): boolean {
+    return this.cps(row) > this.constraints.maxCps || this.longestLine(row) > this.constraints.maxCharsPerLine || this.lineCount(row) > this.constraints.maxLinesPerCue;
+  }
+
+  isEdited(row: ReviewRow): boolean {
+    return row.text !== row.original;
+  }
+
+  setText(sequence: number, text: string): void {
+    this.update(sequence, { text, approved: false });
+  }
+
+  toggleApproved(sequence: number): void {
+    const row = this.allRows().find(candidate => candidate.sequence === sequence);
+    if (row) this.update(sequence, { approved: !row.approved });
+  }
+
+  approveVisible(): void {
+    const visible = new Set(this.visibleRows().map(row => row.sequence));
+    this.commit(this.allRows().map(row => visible.has(row.sequence) ? { ...row, approved: true } : row));
+  }
+
+  revert(sequence: number): void {
+    const row = this.allRows().find(candidate => candidate.sequence === sequence);
+    if (row) this.update(sequence, { text: row.original, approved: false });
+  }
+
+  toggleInstruction(sequence: number): void {
+    this.instructionFor.set(this.instructionFor() === sequence ? null : sequence);
+  }
+
+  async retranslate(sequence: number, instruction = ''): Promise<void> {
+    if (this.busy().includes(sequence)) return;
+    this.busy.set([...this.busy(), sequence]);
+    this.setError(sequence, null);
+    try {
+      const cue = await this.api.retranslateCue(this.jobId, sequence, { language: this.language, ...(instruction.trim() ? { instruction: instruction.trim() } : {}) });
+      this.update(sequence, { text: cue.text, cps: cue.cps, complianceIssues: cue.complianceIssues, qaIssues: cue.qaIssues, approved: false });
+      this.instructionFor.set(null);
+    } catch (err: any) {
+      this.setError(sequence, err.error?.error || 'Failed to retranslate this cue.');
+    } finally {
+      this.busy.set(this.busy().filter(pending => pending !== sequence));
+    }
+  }
+
+  // Alt+Up/Down moves between cues, Ctrl/Cmd+Enter approves the cue and moves on, Escape closes the instruction box.
+  onKeydown(event: KeyboardEvent, index: number): void {
+    const rows = this.visibleRows();
+    if (event.altKey && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      this.focusRow(index + (event.key === 'ArrowDown' ? 1 : -1));
+    } else if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
+      event.preventDefault();
+      if (!rows[index].approved) this.toggleApproved(rows[index].sequence);
+      this.focusRow(index + 1);
+    } else if (event.key === 'Escape' && this.instructionFor() !== null) {
+      this.instructionFor.set(null);
+    }
+  }
+
+  focusRow(index: number): void {
+    const row = this.visibleRows()[index];
+    if (!row) return;
+    const input = document.getElementById(`cue-${this.language}-${row.sequence}`) as HTMLTextAreaElement | null;
+    input?.focus();
+    input?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private matchesFilter(row: ReviewRow, filter: ReviewFilter): boolean {
+    switch (filter) {
+      case 'all': return true;
+      case 'flagged': return row.qaIssues.length > 0 || this.overLimit(row);
+      case 'edited': return this.isEdited(row);
+      case 'unapproved': return !row.approved;
+      case 'approved': return row.approved;
+    }
+  }
+
+  private visibleText(text: string): string {
+    return text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+  }
+
+  private update(sequence: number, changes: Partial<ReviewRow>): void {
+    this.commit(this.allRows().map(row => row.sequence === sequence ? { ...row, ...changes } : row));
+  }
+
+  private commit(rows: ReviewRow[]): void {
+    this.allRows.set(rows);
+    this.rowsChange.emit(rows);
+  }
+
+  private setError(sequence: number, message: string | null): void {
+    const { [sequence]: _, ...rest } = this.errors();
+    this.errors.set(message ? { ...rest, [sequence]: message } : rest);
+  }
+}
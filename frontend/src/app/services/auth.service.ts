@@ -0,0 +1,24 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpHeaders } from '@angular/common/http';
+
+const STORAGE_KEY = 'subtitleTranslatorApiKey';
+
+// Holds the API key the backend issued to this user; kept in localStorage so it survives reloads.
+@Injectable({ providedIn: 'root' })
+export class AuthService {
+  readonly apiKey = signal<string>(localStorage.getItem(STORAGE_KEY) ?? '');
+
+  setApiKey(key: string): void {
+    localStorage.setItem(STORAGE_KEY, key);
+    this.apiKey.set(key);
+  }
+
+  clear(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    this.apiKey.set('');
+  }
+
+  headers(): HttpHeaders {
+    return new HttpHeaders({ Authorization: `Bearer ${this.apiKey()}` });
+  }
+}
@@ -2,28 +2,128 @@ import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { firstValueFrom } from 'rxjs';
 import { environment } from '../../environments/environment';
+import { BlueprintSet } from '../components/blueprint-editor/blueprint-editor.component';
+import { ReviewCue, SubtitleConstraints } from '../components/review-grid/review-grid.component';
+import { AuthService } from './auth.service';
+
+export type GlossarySummary = { id: string, name: string, sourceLanguage: string, targetLanguage: string, version: number, entryCount: number };
+export type GlossarySuggestion = { language: string, term: string, translation: string, definition: string };
+export type Language = { code: string, name: string, nativeName: string, direction: 'ltr' | 'rtl' };
+export type QuotaUsage = { day: string, jobs: number, lines: number, jobLimit: number | null, lineLimit: number | null };
+export type ProjectSummary = { id: string, name: string, description: string, sourceLanguage: string, version: number, characterCount: number, termCount: number, episodeCount: number };
+type UsageTotals = { calls: number, inputTokens: number, outputTokens: number, cost: number };
+export type UsageSummary = { stages: Record<string, UsageTotals>, total: UsageTotals, unpricedModels: string[] };
+export type UsageEstimate = {
+  cueCount: number, targetLanguages: string[], sourceTokens: number, proShare: number, proShareSource: 'history' | 'default',
+  usage: UsageSummary, approvalThreshold: number, requiresApproval: boolean,
+};
+export type DeliverableFormat = 'bilingual-srt' | 'bilingual-vtt' | 'csv' | 'xlsx' | 'xliff';
+export type XliffMerge = { language: string, changes: { sequence: number, from: string, to: string }[], unchanged: number, unknownSequences: number[], applied: boolean };
+type CharacterProfile = { personaName: string, speakingStyle: string, voiceConsistencyRule: string };
+export type ProjectEpisode = {
+  projectId: string, jobId: string, episode: string, version: number, createdAt: string,
+  changes: {
+    addedCharacters: CharacterProfile[], updatedCharacters: CharacterProfile[], addedNuances: string[],
+    addedTerms: Record<string, { term: string, proposedTranslation: string }[]>, changedTerms: Record<string, { term: string, from: string, to: string }[]>,
+    proposedTerms: Record<string, { term: string, from: string, to: string }[]>,
+  },
+};
+
+export type JobOptions = {
+  tone: string, thinkingMode: boolean, outputFormat?: string, sourceLanguage?: string, targetLanguages?: string[], glossaryIds?: string[],
+  qaRetranslate?: boolean, approveBlueprint?: boolean, projectId?: string, episode?: string, acceptEstimate?: boolean,
+};
 
 @Injectable({ providedIn: 'root' })
 export class ApiService {
   private readonly apiUrl = environment.backendApiUrl;
 
-  constructor(private http: HttpClient) { }
+  constructor(private http: HttpClient, private auth: AuthService) { }
 
   uploadAndStartJob(
     subtitleFile: File, 
-    options: { tone: string, thinkingMode: boolean },
+    options: JobOptions,
     glossaryFile?: File
-  ): Promise<{ jobId: string }> {
+  ): Promise<{ jobId: string, estimate: UsageEstimate }> {
     const formData = new FormData();
     formData.append('subtitleFile', subtitleFile);
     formData.append('options', JSON.stringify(options));
     if (glossaryFile) {
       formData.append('glossaryFile', glossaryFile);
     }
-    return firstValueFrom(this.http.post<{ jobId: string }>(`${this.apiUrl}/api/jobs`, formData));
+    return firstValueFrom(this.http.post<{ jobId: string, estimate: UsageEstimate }>(`${this.apiUrl}/api/jobs`, formData, { headers: this.auth.headers() }));
+  }
+
+  estimateJob(subtitleFile: File, options: JobOptions): Promise<UsageEstimate> {
+    const formData = new FormData();
+    formData.append('subtitleFile', subtitleFile);
+    formData.append('options', JSON.stringify(options));
+    return firstValueFrom(this.http.post<UsageEstimate>(`${this.apiUrl}/api/jobs/estimate`, formData, { headers: this.auth.headers() }));
+  }
+
+  getJobUsage(jobId: string): Promise<UsageSummary> {
+    return firstValueFrom(this.http.get<UsageSummary>(`${this.apiUrl}/api/jobs/${jobId}/usage`, { headers: this.auth.headers() }));
   }
   
-  submitCorrection(correctionData: any): Promise<any> {
-    return firstValueFrom(this.http.post(`${this.apiUrl}/api/corrections`, correctionData));
+  // Either the whole edited file (userCorrection) or the edited cue texts, from which the server rebuilds the file.
+  submitCorrection(
+    review: { jobId: string, language: string, userCorrection?: string, cues?: { sequence: number, text: string }[], approvedSequences?: number[] }
+  ): Promise<{ corrections: number, learnedSegments: number, result: string }> {
+    return firstValueFrom(this.http.post<{ corrections: number, learnedSegments: number, result: string }>(`${this.apiUrl}/api/corrections`, review, { headers: this.auth.headers() }));
+  }
+
+  getReviewCues(jobId: string, language: string): Promise<{ language: string, constraints: SubtitleConstraints, cues: ReviewCue[] }> {
+    return firstValueFrom(this.http.get<{ language: string, constraints: SubtitleConstraints, cues: ReviewCue[] }>(`${this.apiUrl}/api/jobs/${jobId}/cues`, { params: { language }, headers: this.auth.headers() }));
+  }
+
+  retranslateCue(jobId: string, sequence: number, options: { language: string, instruction?: string }): Promise<ReviewCue> {
+    return firstValueFrom(this.http.post<ReviewCue>(`${this.apiUrl}/api/jobs/${jobId}/cues/${sequence}/retranslate`, options, { headers: this.auth.headers() }));
+  }
+
+  exportTranslation(jobId: string, language: string, format: DeliverableFormat): Promise<Blob> {
+    return firstValueFrom(this.http.get(`${this.apiUrl}/api/jobs/${jobId}/export`, { params: { language, format }, headers: this.auth.headers(), responseType: 'blob' }));
+  }
+
+  // With dryRun the server only lists what the file would change.
+  importXliff(jobId: string, xliffFile: File, dryRun: boolean): Promise<XliffMerge> {
+    const formData = new FormData();
+    formData.append('xliffFile', xliffFile);
+    return firstValueFrom(this.http.post<XliffMerge>(`${this.apiUrl}/api/jobs/${jobId}/xliff`, formData, { params: { dryRun: String(dryRun) }, headers: this.auth.headers() }));
+  }
+
+  approveBlueprints(jobId: string, blueprints: BlueprintSet): Promise<{ message: string }> {
+    return firstValueFrom(this.http.put<{ message: string }>(`${this.apiUrl}/api/jobs/${jobId}/blueprints`, { blueprints }, { headers: this.auth.headers() }));
+  }
+
+  listGlossaries(): Promise<GlossarySummary[]> {
+    return firstValueFrom(this.http.get<{ glossaries: GlossarySummary[] }>(`${this.apiUrl}/api/glossaries`, { headers: this.auth.headers() })).then(body => body.glossaries);
+  }
+
+  getGlossarySuggestions(jobId: string): Promise<GlossarySuggestion[]> {
+    return firstValueFrom(this.http.get<{ suggestions: GlossarySuggestion[] }>(`${this.apiUrl}/api/jobs/${jobId}/glossary-suggestions`, { headers: this.auth.headers() })).then(body => body.suggestions);
+  }
+
+  promoteTerms(glossaryId: string, jobId: string, terms: string[]): Promise<GlossarySummary> {
+    return firstValueFrom(this.http.post<GlossarySummary>(`${this.apiUrl}/api/glossaries/${glossaryId}/promote`, { jobId, terms }, { headers: this.auth.headers() }));
+  }
+
+  listLanguages(): Promise<Language[]> {
+    return firstValueFrom(this.http.get<{ languages: Language[] }>(`${this.apiUrl}/api/languages`, { headers: this.auth.headers() })).then(body => body.languages);
+  }
+
+  getMe(): Promise<{ user: { id: string, name: string, role: 'admin' | 'user' }, usage: QuotaUsage }> {
+    return firstValueFrom(this.http.get<{ user: { id: string, name: string, role: 'admin' | 'user' }, usage: QuotaUsage }>(`${this.apiUrl}/api/me`, { headers: this.auth.headers() }));
+  }
+
+  listProjects(): Promise<ProjectSummary[]> {
+    return firstValueFrom(this.http.get<{ projects: ProjectSummary[] }>(`${this.apiUrl}/api/projects`, { headers: this.auth.headers() })).then(body => body.projects);
+  }
+
+  createProject(name: string, sourceLanguage: string): Promise<{ id: string, name: string }> {
+    return firstValueFrom(this.http.post<{ id: string, name: string }>(`${this.apiUrl}/api/projects`, { name, sourceLanguage }, { headers: this.auth.headers() }));
+  }
+
+  listEpisodes(projectId: string): Promise<ProjectEpisode[]> {
+    return firstValueFrom(this.http.get<{ episodes: ProjectEpisode[] }>(`${this.apiUrl}/api/projects/${projectId}/episodes`, { headers: this.auth.headers() })).then(body => body.episodes);
   }
 }
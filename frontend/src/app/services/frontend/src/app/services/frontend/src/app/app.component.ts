@@ -1,16 +1,23 @@
 import { Component, ChangeDetectionStrategy, signal, computed, inject, OnDestroy } from '@angular/core';
-import { ApiService } from './services/api.service';
+import { ApiService, DeliverableFormat, GlossarySuggestion, GlossarySummary, JobOptions, Language, ProjectEpisode, ProjectSummary, QuotaUsage, UsageEstimate, UsageSummary, XliffMerge } from './services/api.service';
+import { AuthService } from './services/auth.service';
+import { BlueprintEditorComponent, BlueprintSet } from './components/blueprint-editor/blueprint-editor.component';
+import { ReviewGridComponent, ReviewRow, SubtitleConstraints } from './components/review-grid/review-grid.component';
 import { WebSocketService } from './services/websocket.service';
 import { CommonModule } from '@angular/common';
 import { HttpClientModule } from '@angular/common/http';
 import { Subscription } from 'rxjs';
 
-type AppState = 'idle' | 'uploading' | 'processing' | 'reviewing' | 'completed' | 'failed';
+type AppState = 'idle' | 'uploading' | 'processing' | 'approving' | 'reviewing' | 'completed' | 'failed';
+type OutputFormat = 'same' | 'srt' | 'vtt' | 'ass' | 'sbv';
+type Compliance = { compliantCues: number, totalCues: number, cues: { sequence: number, cps: number, issues: string[] }[] };
+type QaReport = { checkedCues: number, flaggedCues: number, retranslated: number[], issues: { sequence: number, type: string, message: string }[] };
+type TargetTranslation = { language: string, result: string, compliance?: Compliance, qa?: QaReport };
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, HttpClientModule],
+  imports: [CommonModule, HttpClientModule, BlueprintEditorComponent, ReviewGridComponent],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -18,27 +25,141 @@ type AppState = 'idle' | 'uploading' | 'processing' | 'reviewing' | 'completed'
 export class AppComponent implements OnDestroy {
   private api = inject(ApiService);
   private ws = inject(WebSocketService);
+  private auth = inject(AuthService);
   private wsSubscription: Subscription | null = null;
-  private currentJobId = '';
+  currentJobId = '';
+
+  signedIn = computed(() => !!this.auth.apiKey());
+  apiKeyInput = signal<string>('');
+  signInError = signal<string | null>(null);
+  account = signal<{ name: string, usage: QuotaUsage } | null>(null);
 
   appState = signal<AppState>('idle');
   jobProgress = signal<string>('Waiting to start...');
   error = signal<string | null>(null);
   
-  originalSrt = signal<string>('');
-  aiTranslation = signal<string>('');
-  userCorrection = signal<string>('');
+  compliance = signal<Compliance | null>(null);
+  qa = signal<QaReport | null>(null);
+  qaHighlights = computed(() => this.qa()?.issues.slice(0, 5) ?? []);
+  translations = signal<TargetTranslation[]>([]);
+  activeLanguage = signal<string>('');
+  // Grid rows per target language, so switching tabs does not lose edits or approvals.
+  reviewRows = signal<Record<string, ReviewRow[]>>({});
+  reviewConstraints = signal<SubtitleConstraints | null>(null);
+  activeRows = computed(() => this.reviewRows()[this.activeLanguage()] ?? []);
+  submitting = signal<boolean>(false);
+  flaggedCues = computed(() => this.compliance()?.cues.filter(cue => cue.issues.length > 0) ?? []);
+  flaggedSequences = computed(() => {
+    const flagged = this.flaggedCues().map(cue => cue.sequence);
+    return flagged.slice(0, 10).join(', ') + (flagged.length > 10 ? '…' : '');
+  });
   
   selectedFile = signal<File | null>(null);
   selectedFileName = signal<string>('');
   selectedGlossaryFile = signal<File | null>(null);
   selectedGlossaryFileName = signal<string>('');
+  teamGlossaries = signal<GlossarySummary[]>([]);
+  selectedGlossaryIds = signal<string[]>([]);
+  // Only glossaries for the chosen language pair can be attached to a job.
+  usableGlossaries = computed(() => this.teamGlossaries().filter(glossary =>
+    glossary.sourceLanguage === this.sourceLanguage() && this.targetLanguages().includes(glossary.targetLanguage)));
+
+  projects = signal<ProjectSummary[]>([]);
+  selectedProjectId = signal<string>('');
+  episodeLabel = signal<string>('');
+  newProjectName = signal<string>('');
+  projectMessage = signal<string | null>(null);
+  // A project only takes scripts in its own source language.
+  usableProjects = computed(() => this.projects().filter(project => project.sourceLanguage === this.sourceLanguage()));
+  activeProjectId = computed(() => this.usableProjects().some(project => project.id === this.selectedProjectId()) ? this.selectedProjectId() : '');
+  // What this job added to its project's series blueprint, once the job has finished.
+  projectEpisode = signal<ProjectEpisode | null>(null);
+  episodeTermCount = computed(() => Object.values(this.projectEpisode()?.changes.addedTerms ?? {}).reduce((sum, terms) => sum + terms.length, 0));
+  episodeChangedTermCount = computed(() => Object.values(this.projectEpisode()?.changes.changedTerms ?? {}).reduce((sum, terms) => sum + terms.length, 0));
+  episodeProposedTermCount = computed(() => Object.values(this.projectEpisode()?.changes.proposedTerms ?? {}).reduce((sum, terms) => sum + terms.length, 0));
+
+  // What the selected file is expected to cost with the current options, shown before anything is started.
+  fileEstimate = signal<UsageEstimate | null>(null);
+  // Set when the server wants a go-ahead for an expensive job before queuing it.
+  pendingEstimate = signal<UsageEstimate | null>(null);
+  jobEstimate = signal<UsageEstimate | null>(null);
+  jobUsage = signal<UsageSummary | null>(null);
+  jobTokens = computed(() => (this.jobUsage()?.total.inputTokens ?? 0) + (this.jobUsage()?.total.outputTokens ?? 0));
+
+  // An uploaded XLIFF file and what it would change, shown before it is merged into the job.
+  xliffPreview = signal<{ file: File, merge: XliffMerge } | null>(null);
+  deliverableMessage = signal<string | null>(null);
+
+  glossarySuggestions = signal<GlossarySuggestion[]>([]);
+  selectedTerms = signal<string[]>([]);
+  promotionTarget = signal<string>('');
+  promotionMessage = signal<string | null>(null);
+  activeSuggestions = computed(() => this.glossarySuggestions().filter(suggestion => suggestion.language === this.activeLanguage()));
+  promotionGlossaries = computed(() => this.teamGlossaries().filter(glossary =>
+    glossary.sourceLanguage === this.sourceLanguage() && glossary.targetLanguage === this.activeLanguage()));
   
   selectedTone = signal<string>('Professional');
   thinkingMode = signal<boolean>(false);
+  qaRetranslate = signal<boolean>(false);
+  approveBlueprint = signal<boolean>(false);
+  pendingBlueprints = signal<BlueprintSet | null>(null);
+  submittingBlueprints = signal<boolean>(false);
+  selectedOutputFormat = signal<OutputFormat>('same');
+  sourceLanguage = signal<string>('en');
+  targetLanguages = signal<string[]>(['fa']);
   
+  activeDirection = computed(() => this.languageByCode(this.activeLanguage())?.direction ?? 'rtl');
   isProcessing = computed(() => this.appState() === 'uploading' || this.appState() === 'processing');
   readonly tones = ['Professional', 'Literary', 'Casual', 'Technical', 'Cinematic', 'Slang'];
+  readonly outputFormats: { value: OutputFormat, label: string }[] = [
+    { value: 'same', label: 'Same' }, { value: 'srt', label: 'SRT' }, { value: 'vtt', label: 'VTT' }, { value: 'ass', label: 'ASS' }, { value: 'sbv', label: 'SBV' },
+  ];
+  readonly deliverableFormats: { value: DeliverableFormat, label: string }[] = [
+    { value: 'bilingual-srt', label: 'Bilingual SRT' }, { value: 'bilingual-vtt', label: 'Bilingual VTT' },
+    { value: 'csv', label: 'CSV' }, { value: 'xlsx', label: 'Excel' }, { value: 'xliff', label: 'XLIFF' },
+  ];
+  // The languages the server supports, from GET /api/languages.
+  languages = signal<Language[]>([]);
+  languageNames = computed<Record<string, string>>(() => Object.fromEntries(this.languages().map(language => [language.code, language.name])));
+
+  constructor() {
+    if (this.signedIn()) this.loadAccount();
+  }
+
+  async signIn(): Promise<void> {
+    const key = this.apiKeyInput().trim();
+    if (!key) return;
+    this.auth.setApiKey(key);
+    this.apiKeyInput.set('');
+    this.signInError.set(null);
+    await this.loadAccount();
+  }
+
+  signOut(): void {
+    this.auth.clear();
+    this.account.set(null);
+    this.teamGlossaries.set([]);
+    this.projects.set([]);
+    this.startNew();
+  }
+
+  // Checks the stored key and loads everything that needs one; a rejected key is forgotten.
+  private async loadAccount(): Promise<void> {
+    try {
+      const { user, usage } = await this.api.getMe();
+      this.account.set({ name: user.name, usage });
+      this.loadLanguages();
+      this.loadGlossaries();
+      this.loadProjects();
+    } catch (err: any) {
+      if (err.status === 401) {
+        this.auth.clear();
+        this.signInError.set('That API key was not accepted.');
+      } else {
+        this.signInError.set(err.error?.error || 'Could not reach the server.');
+      }
+    }
+  }
 
   ngOnDestroy(): void {
     this.wsSubscription?.unsubscribe();
@@ -51,45 +172,96 @@ export class AppComponent implements OnDestroy {
     if (type === 'subtitle') {
       this.selectedFile.set(file);
       this.selectedFileName.set(file.name);
+      this.refreshEstimate();
     } else {
       this.selectedGlossaryFile.set(file);
       this.selectedGlossaryFileName.set(file.name);
     }
   }
   
-  async onTranslate(): Promise<void> {
+  async onTranslate(acceptEstimate = false): Promise<void> {
     if (!this.selectedFile()) { this.error.set("Subtitle file is required."); return; }
     
     this.resetStateForNewJob();
     this.appState.set('uploading');
-    this.originalSrt.set(await this.selectedFile()!.text());
 
     try {
-      const options = { tone: this.selectedTone(), thinkingMode: this.thinkingMode() };
-      const { jobId } = await this.api.uploadAndStartJob(this.selectedFile()!, options, this.selectedGlossaryFile() || undefined);
+      const options = { ...this.jobOptions(), ...(acceptEstimate ? { acceptEstimate } : {}) };
+      const { jobId, estimate } = await this.api.uploadAndStartJob(this.selectedFile()!, options, this.selectedGlossaryFile() || undefined);
       this.currentJobId = jobId;
+      this.jobEstimate.set(estimate ?? null);
       
       this.appState.set('processing');
       this.ws.connect(jobId);
       this.wsSubscription = this.ws.messages.subscribe({
         next: (msg) => this.handleWsMessage(msg),
-        error: (err) => this.handleWsMessage({ type: 'failed', payload: { error: 'Connection to server lost.' }})
+        error: (err) => this.handleWsMessage({ type: 'failed', payload: { error: err?.message || 'Connection to server lost.' }})
       });
     } catch (err: any) {
-      this.error.set(err.message || 'Failed to start job.');
+      if (err.status === 401) this.auth.clear();
+      if (err.status === 409 && err.error?.estimate) {
+        this.pendingEstimate.set(err.error.estimate);
+        this.appState.set('idle');
+        return;
+      }
+      this.error.set(this.describeUploadError(err));
       this.appState.set('failed');
     }
   }
 
+  private jobOptions(): JobOptions {
+    const outputFormat = this.selectedOutputFormat();
+    const projectId = this.activeProjectId();
+    return {
+      tone: this.selectedTone(), thinkingMode: this.thinkingMode(), qaRetranslate: this.qaRetranslate(), approveBlueprint: this.approveBlueprint(),
+      sourceLanguage: this.sourceLanguage(), targetLanguages: this.targetLanguages(),
+      glossaryIds: this.selectedGlossaryIds().filter(id => this.usableGlossaries().some(glossary => glossary.id === id)),
+      ...(outputFormat !== 'same' ? { outputFormat } : {}),
+      ...(projectId ? { projectId, ...(this.episodeLabel().trim() ? { episode: this.episodeLabel().trim() } : {}) } : {}),
+    };
+  }
+
+  // Called when the file or an option the cost depends on changes; a file the server cannot read simply has no estimate.
+  async refreshEstimate(): Promise<void> {
+    const file = this.selectedFile();
+    if (!file) return;
+    try {
+      const estimate = await this.api.estimateJob(file, this.jobOptions());
+      if (this.selectedFile() === file) this.fileEstimate.set(estimate);
+    } catch (e) {
+      this.fileEstimate.set(null);
+      console.error("Failed to estimate the job");
+    }
+  }
+
+  // The server answers 422 with a validation report when the subtitle file cannot be read cleanly.
+  private describeUploadError(err: any): string {
+    const message = err.error?.error || err.message || 'Failed to start job.';
+    const issues: { line?: number, message: string }[] = err.error?.report?.errors ?? [];
+    const details = issues.slice(0, 3).map(issue => issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message);
+    return [message, ...details].join('\n');
+  }
+
   handleWsMessage(msg: any): void {
     switch (msg.type) {
       case 'progress':
         this.jobProgress.set(msg.payload.stage);
         break;
+      case 'usage':
+        this.jobUsage.set(msg.payload);
+        break;
+      case 'awaiting_approval':
+        this.pendingBlueprints.set(msg.payload);
+        this.appState.set('approving');
+        break;
       case 'completed':
-        this.aiTranslation.set(msg.payload.result);
-        this.userCorrection.set(msg.payload.result);
+        this.translations.set(msg.payload.translations ?? [{ language: msg.payload.language ?? 'fa', result: msg.payload.result, compliance: msg.payload.compliance }]);
+        this.showTranslation(this.translations()[0].language);
         this.appState.set('reviewing');
+        this.loadReviewCues();
+        this.loadSuggestions();
+        this.loadProjectEpisode();
+        this.loadJobUsage();
         this.ws.close();
         break;
       case 'failed':
@@ -100,21 +272,216 @@ export class AppComponent implements OnDestroy {
     }
   }
 
-  onCorrectionChange(event: Event) {
-    this.userCorrection.set((event.target as HTMLTextAreaElement).value);
+  async onApproveBlueprints(blueprints: BlueprintSet): Promise<void> {
+    this.submittingBlueprints.set(true);
+    try {
+      await this.api.approveBlueprints(this.currentJobId, blueprints);
+      this.pendingBlueprints.set(null);
+      this.jobProgress.set('Blueprint approved. Resuming translation...');
+      this.appState.set('processing');
+    } catch (err: any) {
+      this.error.set(err.error?.error || 'Failed to approve blueprint.');
+    } finally {
+      this.submittingBlueprints.set(false);
+    }
+  }
+
+  toggleTargetLanguage(code: string): void {
+    const current = this.targetLanguages();
+    if (current.includes(code)) {
+      if (current.length > 1) this.targetLanguages.set(current.filter(language => language !== code));
+    } else {
+      this.targetLanguages.set([...current, code]);
+    }
+    this.refreshEstimate();
+  }
+
+  toggleGlossary(id: string): void {
+    const current = this.selectedGlossaryIds();
+    this.selectedGlossaryIds.set(current.includes(id) ? current.filter(selected => selected !== id) : [...current, id]);
+  }
+
+  toggleTerm(term: string): void {
+    const current = this.selectedTerms();
+    this.selectedTerms.set(current.includes(term) ? current.filter(selected => selected !== term) : [...current, term]);
+  }
+
+  async promoteSelectedTerms(): Promise<void> {
+    const terms = this.selectedTerms().filter(term => this.activeSuggestions().some(suggestion => suggestion.term === term));
+    const glossaryId = this.promotionTarget() || this.promotionGlossaries()[0]?.id;
+    if (!glossaryId || terms.length === 0) return;
+    try {
+      const glossary = await this.api.promoteTerms(glossaryId, this.currentJobId, terms);
+      this.glossarySuggestions.set(this.glossarySuggestions().filter(suggestion => suggestion.language !== this.activeLanguage() || !terms.includes(suggestion.term)));
+      this.selectedTerms.set([]);
+      this.promotionMessage.set(`Added ${terms.length} term(s) to ${glossary.name} (version ${glossary.version}).`);
+      this.loadGlossaries();
+    } catch (err: any) {
+      this.promotionMessage.set(err.error?.error || 'Failed to add terms to the glossary.');
+    }
+  }
+
+  private async loadLanguages(): Promise<void> {
+    try {
+      this.languages.set(await this.api.listLanguages());
+    } catch (e) { console.error("Failed to load languages"); }
+  }
+
+  private async loadGlossaries(): Promise<void> {
+    try {
+      this.teamGlossaries.set(await this.api.listGlossaries());
+    } catch (e) { console.error("Failed to load glossaries"); }
+  }
+
+  async createProject(): Promise<void> {
+    const name = this.newProjectName().trim();
+    if (!name) return;
+    try {
+      const project = await this.api.createProject(name, this.sourceLanguage());
+      this.newProjectName.set('');
+      this.projectMessage.set(null);
+      await this.loadProjects();
+      this.selectedProjectId.set(project.id);
+    } catch (err: any) {
+      this.projectMessage.set(err.error?.error || 'Failed to create the project.');
+    }
+  }
+
+  private async loadProjects(): Promise<void> {
+    try {
+      this.projects.set(await this.api.listProjects());
+    } catch (e) { console.error("Failed to load projects"); }
+  }
+
+  private async loadProjectEpisode(): Promise<void> {
+    const projectId = this.activeProjectId();
+    if (!projectId) return;
+    try {
+      const episodes = await this.api.listEpisodes(projectId);
+      this.projectEpisode.set(episodes.find(episode => episode.jobId === this.currentJobId) ?? null);
+    } catch (e) { console.error("Failed to load the project episode"); }
+  }
+
+  projectName(id: string): string {
+    return this.projects().find(project => project.id === id)?.name ?? 'the project';
+  }
+
+  private async loadReviewCues(languages = this.translations().map(translation => translation.language)): Promise<void> {
+    for (const language of languages) {
+      try {
+        const { constraints, cues } = await this.api.getReviewCues(this.currentJobId, language);
+        this.reviewConstraints.set(constraints);
+        this.reviewRows.set({ ...this.reviewRows(), [language]: cues.map(cue => ({ ...cue, original: cue.text, approved: false })) });
+      } catch (e) {
+        this.error.set('Failed to load the cues for review.');
+      }
+    }
+  }
+
+  onRowsChange(rows: ReviewRow[]): void {
+    this.reviewRows.set({ ...this.reviewRows(), [this.activeLanguage()]: rows });
+  }
+
+  async downloadDeliverable(format: DeliverableFormat): Promise<void> {
+    const option = this.deliverableFormats.find(candidate => candidate.value === format)!;
+    try {
+      const blob = await this.api.exportTranslation(this.currentJobId, this.activeLanguage(), format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `translation-${this.currentJobId}.${this.activeLanguage()}.${format === 'xliff' ? 'xlf' : format.replace('bilingual-', 'bilingual.')}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      this.deliverableMessage.set(null);
+    } catch (e) {
+      this.deliverableMessage.set(`Failed to export ${option.label}.`);
+    }
+  }
+
+  // Edits made in a CAT tool are previewed first; nothing is stored until applyXliff().
+  async onXliffSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      const merge = await this.api.importXliff(this.currentJobId, file, true);
+      this.xliffPreview.set(merge.changes.length > 0 ? { file, merge } : null);
+      this.deliverableMessage.set(merge.changes.length > 0 ? null : 'The XLIFF file does not change any cue.');
+    } catch (err: any) {
+      this.xliffPreview.set(null);
+      this.deliverableMessage.set(err.error?.error || 'Failed to read the XLIFF file.');
+    }
+  }
+
+  async applyXliff(): Promise<void> {
+    const preview = this.xliffPreview();
+    if (!preview) return;
+    try {
+      const merge = await this.api.importXliff(this.currentJobId, preview.file, false);
+      this.xliffPreview.set(null);
+      this.deliverableMessage.set(`Merged ${merge.changes.length} edited cue(s) into the ${this.languageNames()[merge.language] ?? merge.language} translation.`);
+      await this.loadReviewCues([merge.language]);
+    } catch (err: any) {
+      this.deliverableMessage.set(err.error?.error || 'Failed to merge the XLIFF file.');
+    }
+  }
+
+  // Usage is streamed at most every few seconds, so the finished job's totals are read from the server once.
+  private async loadJobUsage(): Promise<void> {
+    try {
+      this.jobUsage.set(await this.api.getJobUsage(this.currentJobId));
+    } catch (e) { console.error("Failed to load job usage"); }
+  }
+
+  // Terms the model added to the blueprint, offered for promotion into a team glossary.
+  private async loadSuggestions(): Promise<void> {
+    try {
+      this.glossarySuggestions.set(await this.api.getGlossarySuggestions(this.currentJobId));
+    } catch (e) { console.error("Failed to load glossary suggestions"); }
+  }
+
+  showTranslation(language: string): void {
+    const translation = this.translations().find(t => t.language === language);
+    if (!translation) return;
+    this.activeLanguage.set(language);
+    this.compliance.set(translation.compliance ?? null);
+    this.qa.set(translation.qa ?? null);
+    this.selectedTerms.set([]);
+    this.promotionTarget.set(this.promotionGlossaries()[0]?.id ?? '');
+    this.promotionMessage.set(null);
+  }
+
+  languageByCode(code: string): Language | undefined {
+    return this.languages().find(language => language.code === code);
   }
 
   async submitAndFinish() {
-    if (this.aiTranslation() !== this.userCorrection()) {
+    this.submitting.set(true);
+    const failed: string[] = [];
+    for (const translation of this.translations()) {
+      // Only cue texts go back; the server rebuilds the file around the original timings.
+      // Approved cues feed the translation memory, the rest are recorded as corrections only.
+      const rows = this.reviewRows()[translation.language];
+      if (!rows) continue;
       try {
         await this.api.submitCorrection({
-          originalEnglish: 'Full SRT content for now', // In a real app, you'd send line-by-line diffs
-          aiTranslation: this.aiTranslation(),
-          userCorrection: this.userCorrection(),
-          jobId: this.currentJobId
+          jobId: this.currentJobId,
+          language: translation.language,
+          cues: rows.map(row => ({ sequence: row.sequence, text: row.text })),
+          approvedSequences: rows.filter(row => row.approved).map(row => row.sequence),
         });
-      } catch (e) { console.error("Failed to submit correction"); }
+      } catch (e) {
+        failed.push(this.languageNames()[translation.language] ?? translation.language);
+      }
+    }
+    this.submitting.set(false);
+    // Stay in the review so nothing is lost; saved languages are simply saved again on retry.
+    if (failed.length > 0) {
+      this.error.set(`Failed to save the corrections for ${failed.join(', ')}.`);
+      return;
     }
+    this.error.set(null);
     this.appState.set('completed');
   }
 
@@ -122,17 +489,33 @@ export class AppComponent implements OnDestroy {
     this.resetStateForNewJob();
     this.selectedFile.set(null);
     this.selectedFileName.set('');
+    this.fileEstimate.set(null);
     this.selectedGlossaryFile.set(null);
     this.selectedGlossaryFileName.set('');
+    this.episodeLabel.set('');
+    if (this.signedIn()) this.loadAccount();
   }
 
   resetStateForNewJob(): void {
     this.appState.set('idle');
     this.error.set(null);
     this.jobProgress.set('Waiting to start...');
-    this.originalSrt.set('');
-    this.aiTranslation.set('');
-    this.userCorrection.set('');
+    this.compliance.set(null);
+    this.qa.set(null);
+    this.pendingBlueprints.set(null);
+    this.translations.set([]);
+    this.activeLanguage.set('');
+    this.reviewRows.set({});
+    this.reviewConstraints.set(null);
+    this.glossarySuggestions.set([]);
+    this.selectedTerms.set([]);
+    this.promotionMessage.set(null);
+    this.projectEpisode.set(null);
+    this.pendingEstimate.set(null);
+    this.jobEstimate.set(null);
+    this.jobUsage.set(null);
+    this.xliffPreview.set(null);
+    this.deliverableMessage.set(null);
     this.wsSubscription?.unsubscribe();
     this.ws.close();
   }
@@ -1,9 +1,11 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import { Subject } from 'rxjs';
 import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
 
 @Injectable({ providedIn: 'root' })
 export class WebSocketService {
+    private auth = inject(AuthService);
     private socket: WebSocket | null = null;
     public messages = new Subject<any>();
 
@@ -15,15 +17,18 @@ export class WebSocketService {
 
         this.socket.onopen = () => {
             console.log('WebSocket connection established.');
-            this.socket?.send(JSON.stringify({ type: 'register', jobId }));
+            // Browsers cannot set headers on a WebSocket, so the key goes with the registration.
+            this.socket?.send(JSON.stringify({ type: 'register', jobId, apiKey: this.auth.apiKey() }));
         };
 
         this.socket.onmessage = (event) => {
             this.messages.next(JSON.parse(event.data));
         };
 
-        this.socket.onclose = () => {
+        this.socket.onclose = (event) => {
             console.log('WebSocket connection closed.');
+            // 1008: the server refused the registration (bad key, or someone else's job).
+            if (event.code === 1008) this.messages.error(new Error(event.reason));
         };
 
         this.socket.onerror = (error) => {